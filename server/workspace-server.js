@@ -0,0 +1,256 @@
+// Workspace server for local or team use: serves the dashboard's workspace
+// repository API and keeps everything in one JSON file.
+//
+//   npm run server
+//   VITE_WORKSPACE_API_URL=http://localhost:8787/api npm run dev
+//
+// PORT and WORKSPACE_FILE override the defaults below.
+
+import { createServer } from 'node:http';
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_FILE = resolve(process.env.WORKSPACE_FILE || 'workspace-data.json');
+// Largest request body accepted, in bytes; big imports arrive in one request
+const MAX_BODY = 50 * 1024 * 1024;
+
+const FILE_VERSION = 2;
+
+const emptyWorkspace = () => ({
+  version: FILE_VERSION,
+  jobs: [],
+  batches: [],
+  importLog: [],
+  auditLog: [],
+  settings: { customFields: [], resolvedAnomalies: [] },
+});
+
+// Same as backfillReworkCycles in the app: a job rejected or in rework without
+// rework cycles gets the open cycle it would have had
+function backfillReworkCycles(job, at) {
+  if (job.reworkCycles?.length || (job.qcStatus !== 'Rejected' && job.qcStatus !== 'In Rework')) return job;
+  const stepTime = date => date && date < at.slice(0, 10) ? date : at;
+  const cycle = {
+    cycle: 1,
+    rejectReason: job.rejectReason || '',
+    ...(job.rejectCategory && { category: job.rejectCategory }),
+    ...(job.errorSeverity && { severity: job.errorSeverity }),
+    rejectedBy: job.qcName || '',
+    rejectedAt: stepTime(job.qcDateISO),
+    ...(job.qcStatus === 'In Rework' && { reworkStartedAt: stepTime(job.reworkDateISO) }),
+  };
+  return { ...job, reworkCycles: [cycle] };
+}
+
+// Append only, like the browser store's migrations: index i upgrades version i to i + 1
+const MIGRATIONS = [
+  // 0 → 1: the first file format
+  () => {},
+  // 1 → 2: rework cycles
+  data => {
+    const at = new Date().toISOString();
+    data.jobs = (data.jobs || []).map(job => backfillReworkCycles(job, at));
+  },
+];
+
+async function loadWorkspace() {
+  try {
+    const data = JSON.parse(await readFile(DATA_FILE, 'utf8'));
+    for (let version = data.version || 0; version < FILE_VERSION; version++) {
+      MIGRATIONS[version]?.(data);
+      data.version = version + 1;
+    }
+    return { ...emptyWorkspace(), ...data };
+  } catch (error) {
+    if (error.code === 'ENOENT') return emptyWorkspace();
+    throw error;
+  }
+}
+
+let workspace = await loadWorkspace();
+let saving = Promise.resolve();
+
+// Writes go to a temporary file first so a crash never leaves half a workspace
+function persist() {
+  const contents = JSON.stringify(workspace);
+  // A failed write only fails its own request; the next write saves the whole workspace again
+  const write = saving.catch(() => {}).then(async () => {
+    await writeFile(`${DATA_FILE}.tmp`, contents);
+    await rename(`${DATA_FILE}.tmp`, DATA_FILE);
+  });
+  saving = write;
+  return write;
+}
+
+// Same last-writer-wins rule as isNewerJob in the app: higher version, then later write
+function isNewerJob(incoming, current) {
+  if (!current) return true;
+  const incomingVersion = incoming.version ?? 0;
+  const currentVersion = current.version ?? 0;
+  if (incomingVersion !== currentVersion) return incomingVersion > currentVersion;
+  return (incoming.updatedAt ?? '') > (current.updatedAt ?? '');
+}
+
+// Keeps the stored revision of a job when it is newer than the incoming one
+function upsertJobs(jobs, changed) {
+  const currentById = new Map(jobs.map(job => [job.jid, job]));
+  const winners = changed.filter(job => isNewerJob(job, currentById.get(job.jid)));
+  const winnersById = new Map(winners.map(job => [job.jid, job]));
+  return [
+    ...jobs.map(job => winnersById.get(job.jid) || job),
+    ...winners.filter(job => !currentById.has(job.jid)),
+  ];
+}
+
+// Same as mergeCustomFields in the app: new fields are added and list options grow, known types never change
+function mergeCustomFields(registry, incoming) {
+  const incomingByKey = new Map(incoming.map(field => [field.key, field]));
+  const merged = registry.map(field => {
+    const update = incomingByKey.get(field.key);
+    if (!update || field.type !== 'enum') return field;
+    return { ...field, options: [...new Set([...(field.options || []), ...(update.options || [])])] };
+  });
+  const known = new Set(registry.map(field => field.key));
+  return [...merged, ...incoming.filter(field => !known.has(field.key))];
+}
+
+// The audit log is append only; an event already stored is not added twice
+function appendAudit(events) {
+  const known = new Set(workspace.auditLog.map(event => event.id));
+  workspace.auditLog.push(...(events || []).filter(event => !known.has(event.id)));
+}
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+async function readBody(request) {
+  const chunks = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > MAX_BODY) throw new HttpError(413, 'Request body is too large');
+    chunks.push(chunk);
+  }
+  let body;
+  try {
+    body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+  // Every route takes an object; null, arrays and plain values are refused before a handler destructures them
+  if (body === null || typeof body !== 'object' || Array.isArray(body)) throw new HttpError(400, 'Request body must be a JSON object');
+  return body;
+}
+
+const isOptionalList = value => value === undefined || Array.isArray(value);
+
+const routes = [
+  ['GET', /^\/api\/workspace$/, () => workspace],
+  ['PUT', /^\/api\/workspace$/, async ({ jobs, batches, importLog, auditLog, settings }) => {
+    if (![jobs, batches, importLog].every(Array.isArray) || !isOptionalList(auditLog)) throw new HttpError(400, 'A workspace needs jobs, batches and an import log');
+    workspace = {
+      ...emptyWorkspace(),
+      jobs,
+      batches,
+      importLog,
+      auditLog: auditLog || [],
+      settings: { ...emptyWorkspace().settings, ...settings },
+    };
+    await persist();
+  }],
+  ['GET', /^\/api\/jobs$/, () => workspace.jobs],
+  ['GET', /^\/api\/batches$/, () => workspace.batches],
+
+  ['PUT', /^\/api\/jobs$/, async ({ jobs, audit }) => {
+    if (!Array.isArray(jobs) || !jobs.every(job => job?.jid) || !isOptionalList(audit)) throw new HttpError(400, 'Every job needs a Job ID');
+    workspace.jobs = upsertJobs(workspace.jobs, jobs);
+    appendAudit(audit);
+    await persist();
+    const ids = new Set(jobs.map(job => job.jid));
+    return workspace.jobs.filter(job => ids.has(job.jid));
+  }],
+
+  ['POST', /^\/api\/jobs\/assign$/, async ({ jobIds, assignedTo, assignedDate, assignedBy, audit }) => {
+    if (!Array.isArray(jobIds) || !isOptionalList(audit)) throw new HttpError(400, 'An assignment needs the IDs of its jobs');
+    const ids = new Set(jobIds);
+    const updated = [];
+    workspace.jobs = workspace.jobs.map(job => {
+      if (!ids.has(job.jid)) return job;
+      // Stamped like assignJob in the app, with the assignment date as the revision time
+      const assigned = { ...job, assignedTo, assignedDate, assignedBy, version: (job.version ?? 0) + 1, updatedAt: assignedDate };
+      updated.push(assigned);
+      return assigned;
+    });
+    appendAudit(audit);
+    await persist();
+    return updated;
+  }],
+
+  ['POST', /^\/api\/batches$/, async ({ batch, jobs, transaction, customFields, audit }) => {
+    if (!batch?.id || !transaction?.id) throw new HttpError(400, 'A batch import needs a batch and its transaction');
+    if (![jobs, customFields, audit].every(isOptionalList)) throw new HttpError(400, 'Jobs, custom fields and audit events must be lists');
+    workspace.jobs = upsertJobs(workspace.jobs, jobs || []);
+    workspace.batches = [...workspace.batches.filter(b => b.id !== batch.id), batch];
+    workspace.importLog = [...workspace.importLog.filter(entry => entry.id !== transaction.id), transaction];
+    workspace.settings = {
+      ...workspace.settings,
+      customFields: mergeCustomFields(workspace.settings.customFields || [], customFields || []),
+    };
+    appendAudit(audit);
+    await persist();
+  }],
+
+  ['POST', /^\/api\/batches\/([^/]+)\/revert$/, async ({ transactionId, jobs, deletedJobIds, audit }, [batchId]) => {
+    if (!transactionId || ![jobs, deletedJobIds, audit].every(isOptionalList)) throw new HttpError(400, 'A revert needs its transaction and lists of jobs');
+    const deleted = new Set(deletedJobIds);
+    workspace.jobs = upsertJobs(workspace.jobs.filter(job => !deleted.has(job.jid)), jobs || []);
+    workspace.batches = workspace.batches.filter(batch => batch.id !== batchId);
+    workspace.importLog = workspace.importLog.filter(entry => entry.id !== transactionId);
+    appendAudit(audit);
+    await persist();
+  }],
+
+  ['PUT', /^\/api\/settings$/, async (settings) => {
+    workspace.settings = { ...workspace.settings, ...settings };
+    await persist();
+  }],
+];
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+function send(response, status, body) {
+  response.writeHead(status, { ...CORS_HEADERS, ...(body === undefined ? {} : { 'Content-Type': 'application/json' }) });
+  response.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+const server = createServer(async (request, response) => {
+  if (request.method === 'OPTIONS') return send(response, 204);
+
+  const path = new URL(request.url, 'http://localhost').pathname;
+  const route = routes.find(([method, pattern]) => method === request.method && pattern.test(path));
+  if (!route) return send(response, 404, { error: `No route for ${request.method} ${path}` });
+
+  try {
+    const [, pattern, handle] = route;
+    const params = path.match(pattern).slice(1).map(decodeURIComponent);
+    const body = request.method === 'GET' ? undefined : await readBody(request);
+    const result = await handle(body, params);
+    send(response, result === undefined ? 204 : 200, result);
+  } catch (error) {
+    if (!error.status) console.error(error);
+    send(response, error.status || 500, { error: error.message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Workspace server listening on http://localhost:${PORT}/api, storing ${DATA_FILE}`);
+});
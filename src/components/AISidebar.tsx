@@ -14,7 +14,9 @@ import {
   Database,
   Settings,
   TrendingUp,
-  AlertTriangle
+  AlertTriangle,
+  History,
+  Repeat
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
@@ -46,6 +48,8 @@ export function AISidebar({
         { id: "quality", label: "Quality", icon: CheckCircle },
         { id: "user-tracking", label: "User Tracking", icon: Users },
         { id: "operations", label: "Operations", icon: Settings },
+        { id: "rework", label: "Rework Loops", icon: Repeat },
+        { id: "audit-log", label: "Audit Log", icon: History },
       ]
     },
     {
@@ -13,7 +13,12 @@ import {
   CheckCircle,
   XCircle
 } from "lucide-react";
+import { cn } from "@/lib/utils";
 import type { Job } from "./JobTable";
+import { useJobs, useSaveSettings, useSettings } from "@/hooks/use-workspace";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { DEFAULT_WORKSPACE_SETTINGS } from "@/utils/workspaceRepository";
+import { rejectPatternKey } from "@/utils/rejectReasons";
 
 interface Anomaly {
   id: string;
@@ -29,18 +34,24 @@ interface Anomaly {
 }
 
 interface AnomalyDetectionProps {
-  jobs: Job[];
   batchId?: string;
-  onResolveAnomaly?: (anomalyId: string) => void;
   onViewAffectedJobs?: (jobIds: string[]) => void;
 }
 
+const NO_JOBS: Job[] = [];
+
+// Resolutions are stored per batch scope, so resolving a workspace-wide anomaly
+// leaves the same anomaly open in a single batch
+const anomalyKey = (batchId: string | undefined, anomalyId: string) => `${batchId ?? 'all'}:${anomalyId}`;
+
 export function AnomalyDetection({ 
-  jobs, 
   batchId, 
-  onResolveAnomaly, 
   onViewAffectedJobs 
 }: AnomalyDetectionProps) {
+  const { data: jobs = NO_JOBS } = useJobs();
+  const { data: settings = DEFAULT_WORKSPACE_SETTINGS } = useSettings();
+  const saveSettings = useSaveSettings();
+  const { actor } = useCurrentUser();
   
   const anomalies = useMemo(() => {
     const detectedAnomalies: Anomaly[] = [];
@@ -71,27 +82,19 @@ export function AnomalyDetection({
     }
 
     // 2. Pattern Error Detection (similar reject reasons)
-    const rejectReasons = relevantJobs
-      .filter(j => j.qcStatus === 'Rejected' && j.rejectReason)
-      .map(j => j.rejectReason!);
+    const reasonedRejections = relevantJobs.filter(j => j.qcStatus === 'Rejected' && j.rejectReason);
     
-    const reasonCounts = rejectReasons.reduce((acc, reason) => {
-      // Normalize similar errors (containing 'retrror', 'missing', etc.)
-      const normalized = reason.toLowerCase().includes('retrror') ? 'structural_error' :
-                        reason.toLowerCase().includes('missing') ? 'missing_component' :
-                        reason.toLowerCase().includes('wrong') ? 'incorrect_labeling' : reason;
-      acc[normalized] = (acc[normalized] || 0) + 1;
+    // Grouped by reason category (recorded, or guessed from the reason's words)
+    const reasonCounts = reasonedRejections.reduce((acc, job) => {
+      const pattern = rejectPatternKey(job);
+      acc[pattern] = (acc[pattern] || 0) + 1;
       return acc;
     }, {} as Record<string, number>);
 
     Object.entries(reasonCounts).forEach(([reason, count]) => {
       if (count >= 3) { // 3 or more similar errors
-        const affectedJobs = relevantJobs
-          .filter(j => j.rejectReason?.toLowerCase().includes(
-            reason === 'structural_error' ? 'retrror' :
-            reason === 'missing_component' ? 'missing' :
-            reason === 'incorrect_labeling' ? 'wrong' : reason
-          ))
+        const affectedJobs = reasonedRejections
+          .filter(j => rejectPatternKey(j) === reason)
           .map(j => j.jid);
 
         detectedAnomalies.push({
@@ -162,6 +165,25 @@ export function AnomalyDetection({
     });
   }, [jobs, batchId]);
 
+  const listedAnomalies = useMemo(() => {
+    const resolvedKeys = new Set(settings.resolvedAnomalies.map(resolution => resolution.key));
+    return anomalies
+      .map(anomaly => ({ ...anomaly, resolved: resolvedKeys.has(anomalyKey(batchId, anomaly.id)) }))
+      .sort((a, b) => Number(a.resolved) - Number(b.resolved));
+  }, [anomalies, settings.resolvedAnomalies, batchId]);
+  const openAnomalies = useMemo(() => listedAnomalies.filter(anomaly => !anomaly.resolved), [listedAnomalies]);
+
+  const toggleResolved = (anomaly: Anomaly) => {
+    const key = anomalyKey(batchId, anomaly.id);
+    const others = settings.resolvedAnomalies.filter(resolution => resolution.key !== key);
+    saveSettings.mutate({
+      ...settings,
+      resolvedAnomalies: anomaly.resolved
+        ? others
+        : [...others, { key, resolvedAt: new Date().toISOString(), resolvedBy: actor }],
+    });
+  };
+
   const getSeverityIcon = (severity: Anomaly['severity']) => {
     switch (severity) {
       case 'critical': return <XCircle className="h-4 w-4 text-destructive" />;
@@ -199,8 +221,8 @@ export function AnomalyDetection({
     const acceptedJobs = relevantJobs.filter(j => j.qcStatus === 'Accepted').length;
     const baseScore = (acceptedJobs / relevantJobs.length) * 100;
     
-    // Deduct points for anomalies
-    const anomalyDeduction = anomalies.reduce((acc, anomaly) => {
+    // Deduct points for anomalies still open
+    const anomalyDeduction = openAnomalies.reduce((acc, anomaly) => {
       switch (anomaly.severity) {
         case 'critical': return acc + 15;
         case 'high': return acc + 10;
@@ -210,7 +232,7 @@ export function AnomalyDetection({
     }, 0);
     
     return Math.max(0, Math.min(100, baseScore - anomalyDeduction));
-  }, [jobs, batchId, anomalies]);
+  }, [jobs, batchId, openAnomalies]);
 
   return (
     <Card className="p-6 bg-gradient-card shadow-medium">
@@ -224,7 +246,9 @@ export function AnomalyDetection({
             <div>
               <h2 className="text-xl font-semibold">AI Anomaly Detection</h2>
               <p className="text-sm text-muted-foreground">
-                {anomalies.length} anomalies detected • Quality Score: {qualityScore.toFixed(1)}%
+                {anomalies.length} anomalies detected
+                {listedAnomalies.length > openAnomalies.length && ` (${listedAnomalies.length - openAnomalies.length} resolved)`}
+                {' '}• Quality Score: {qualityScore.toFixed(1)}%
               </p>
             </div>
           </div>
@@ -240,7 +264,7 @@ export function AnomalyDetection({
         {/* Summary Stats */}
         <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
           {['critical', 'high', 'medium', 'low'].map(severity => {
-            const count = anomalies.filter(a => a.severity === severity).length;
+            const count = openAnomalies.filter(a => a.severity === severity).length;
             return (
               <div key={severity} className="p-3 border rounded-lg">
                 <div className="flex items-center gap-2 mb-1">
@@ -263,8 +287,8 @@ export function AnomalyDetection({
               </AlertDescription>
             </Alert>
           ) : (
-            anomalies.map((anomaly) => (
-              <Alert key={anomaly.id} className="p-4">
+            listedAnomalies.map((anomaly) => (
+              <Alert key={anomaly.id} className={cn("p-4", anomaly.resolved && "opacity-60")}>
                 <div className="flex items-start gap-3">
                   <div className="flex items-center gap-2 mt-1">
                     {getTypeIcon(anomaly.type)}
@@ -280,6 +304,9 @@ export function AnomalyDetection({
                       <Badge variant="outline" className="text-xs">
                         {anomaly.affectedJobs.length} jobs
                       </Badge>
+                      {anomaly.resolved && (
+                        <Badge variant="success" className="text-xs">Resolved</Badge>
+                      )}
                     </div>
                     
                     <p className="text-sm text-muted-foreground mb-2">
@@ -302,10 +329,10 @@ export function AnomalyDetection({
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={() => onResolveAnomaly?.(anomaly.id)}
+                        onClick={() => toggleResolved(anomaly)}
                         className="h-7 text-xs"
                       >
-                        Mark Resolved
+                        {anomaly.resolved ? 'Reopen' : 'Mark Resolved'}
                       </Button>
                     </div>
                   </div>
@@ -0,0 +1,42 @@
+import { Badge } from "@/components/ui/badge";
+import { AUDIT_ACTION_LABELS, describeAuditEvent } from "@/utils/auditLog";
+import type { AuditEvent } from "@/utils/auditLog";
+import { exportColumnLabel } from "@/utils/exportUtils";
+import type { CustomFieldDefinition } from "@/utils/customFields";
+
+interface AuditEventEntryProps {
+  event: AuditEvent;
+  customFields?: CustomFieldDefinition[];
+  // The workspace-wide log names the job; a job's own history does not need to
+  showJob?: boolean;
+}
+
+/** One audit event: who did what and when, with every field's before and after value. */
+export function AuditEventEntry({ event, customFields = [], showJob = false }: AuditEventEntryProps) {
+  return (
+    <div className="space-y-1.5 px-3 py-2.5">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Badge variant="outline" className="text-xs">{AUDIT_ACTION_LABELS[event.action]}</Badge>
+        {showJob && <span className="font-mono">{event.jid}</span>}
+        <span className="font-medium">{event.actor}</span>
+        <span className="text-xs text-muted-foreground ml-auto">{new Date(event.at).toLocaleString()}</span>
+      </div>
+      {event.changes.length === 0 ? (
+        <div className="text-xs text-muted-foreground">{describeAuditEvent(event, customFields)}</div>
+      ) : (
+        <div className="space-y-0.5">
+          {event.changes.map(change => (
+            <div key={change.field} className="grid grid-cols-[8rem_1fr] gap-2 text-xs">
+              <span className="text-muted-foreground truncate">{exportColumnLabel(change.field, customFields)}</span>
+              <span>
+                <span className="line-through text-muted-foreground">{change.before || '—'}</span>
+                {' → '}
+                <span className="font-medium">{change.after || '—'}</span>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
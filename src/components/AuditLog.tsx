@@ -0,0 +1,131 @@
+import { useMemo, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, History, Search } from "lucide-react";
+import { AuditEventEntry } from "@/components/AuditEventEntry";
+import { useAuditLog, useSettings } from "@/hooks/use-workspace";
+import { downloadCSV } from "@/utils/csvUtils";
+import { AUDIT_ACTION_LABELS, DEFAULT_AUDIT_FILTER, auditEventsToCSV, filterAuditEvents } from "@/utils/auditLog";
+import type { AuditAction, AuditEvent, AuditFilter } from "@/utils/auditLog";
+import { DEFAULT_WORKSPACE_SETTINGS } from "@/utils/workspaceRepository";
+
+interface AuditLogProps {
+  // Limits the log to one batch's jobs
+  batchId?: string;
+}
+
+// Events listed on screen; the export has all that match
+const MAX_LISTED_EVENTS = 200;
+
+const NO_EVENTS: AuditEvent[] = [];
+
+export function AuditLog({ batchId }: AuditLogProps) {
+  const { data: auditLog = NO_EVENTS } = useAuditLog();
+  const { data: settings = DEFAULT_WORKSPACE_SETTINGS } = useSettings();
+  const [filter, setFilter] = useState<AuditFilter>(DEFAULT_AUDIT_FILTER);
+
+  const batchLog = useMemo(
+    () => batchId ? auditLog.filter(event => event.batchId === batchId) : auditLog,
+    [auditLog, batchId]
+  );
+  const actors = useMemo(() => [...new Set(batchLog.map(event => event.actor))].sort(), [batchLog]);
+  const events = useMemo(() => filterAuditEvents(batchLog, filter), [batchLog, filter]);
+
+  const updateFilter = (change: Partial<AuditFilter>) => setFilter(prev => ({ ...prev, ...change }));
+
+  const handleExport = () => {
+    const timestamp = new Date().toISOString().split('T')[0];
+    downloadCSV(auditEventsToCSV(events, settings.customFields), `audit_log_${timestamp}.csv`);
+  };
+
+  return (
+    <Card className="p-6 bg-gradient-card shadow-medium">
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="bg-primary/10 p-2 rounded-lg">
+              <History className="h-5 w-5 text-primary" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold">Audit Log</h2>
+              <p className="text-sm text-muted-foreground">
+                {events.length} of {batchLog.length} changes{batchId && ` in ${batchId}`}
+              </p>
+            </div>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={events.length === 0} className="gap-2">
+            <Download size={16} />
+            Export
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="relative flex-1 min-w-[200px]">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground" size={16} />
+            <Input
+              placeholder="Search Job ID, batch or values..."
+              value={filter.search}
+              onChange={(e) => updateFilter({ search: e.target.value })}
+              className="pl-10"
+            />
+          </div>
+          <Select value={filter.action} onValueChange={(value) => updateFilter({ action: value as AuditAction | 'all' })}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Actions</SelectItem>
+              {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(action => (
+                <SelectItem key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={filter.actor} onValueChange={(value) => updateFilter({ actor: value })}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Everyone</SelectItem>
+              {actors.map(actor => (
+                <SelectItem key={actor} value={actor}>{actor}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="date"
+            aria-label="From"
+            value={filter.from || ''}
+            onChange={(e) => updateFilter({ from: e.target.value || undefined })}
+            className="w-[150px]"
+          />
+          <Input
+            type="date"
+            aria-label="To"
+            value={filter.to || ''}
+            onChange={(e) => updateFilter({ to: e.target.value || undefined })}
+            className="w-[150px]"
+          />
+        </div>
+
+        {events.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            {batchLog.length === 0 ? 'No changes have been recorded yet.' : 'No changes match the filters.'}
+          </p>
+        ) : (
+          <div className="border rounded-lg divide-y">
+            {events.slice(0, MAX_LISTED_EVENTS).map(event => (
+              <AuditEventEntry key={event.id} event={event} customFields={settings.customFields} showJob />
+            ))}
+            {events.length > MAX_LISTED_EVENTS && (
+              <div className="px-3 py-2 text-xs text-muted-foreground">
+                and {events.length - MAX_LISTED_EVENTS} more in the export
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -4,6 +4,22 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Separator } from "@/components/ui/separator";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { 
   Calendar, 
   User, 
@@ -12,28 +28,37 @@ import {
   Download,
   Search,
   Filter,
-  MoreVertical
+  MoreVertical,
+  Undo2
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import type { BatchInfo } from "./CSVImportModal";
+import { useBatches, useImportLog } from "@/hooks/use-workspace";
 
 interface BatchManagerProps {
-  batches: BatchInfo[];
   selectedBatch?: string;
   onBatchSelect: (batchId: string) => void;
   onBatchView: (batchId: string) => void;
   onBatchExport: (batchId: string) => void;
+  onBatchRevert?: (batchId: string) => void;
 }
 
+const NO_BATCHES: BatchInfo[] = [];
+
 export function BatchManager({ 
-  batches, 
   selectedBatch, 
   onBatchSelect, 
   onBatchView,
-  onBatchExport 
+  onBatchExport,
+  onBatchRevert
 }: BatchManagerProps) {
+  const { data: batches = NO_BATCHES } = useBatches();
+  // Only batches with a logged import can be reverted
+  const { data: importLog } = useImportLog();
+  const revertableBatchIds = importLog?.map(entry => entry.batch.id) ?? [];
   const [searchTerm, setSearchTerm] = useState("");
   const [typeFilter, setTypeFilter] = useState<'all' | 'Fresh' | 'QCed'>('all');
+  const [revertTarget, setRevertTarget] = useState<BatchInfo | null>(null);
 
   const filteredBatches = batches.filter(batch => {
     const matchesSearch = searchTerm === "" || 
@@ -178,13 +203,28 @@ export function BatchManager({
                       <Download size={14} />
                       Export
                     </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      className="h-8 w-8 p-0"
-                    >
-                      <MoreVertical size={14} />
-                    </Button>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          onClick={(e) => e.stopPropagation()}
+                        >
+                          <MoreVertical size={14} />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                        <DropdownMenuItem
+                          disabled={!onBatchRevert || !revertableBatchIds.includes(batch.id)}
+                          onSelect={() => setRevertTarget(batch)}
+                          className="gap-2"
+                        >
+                          <Undo2 size={14} />
+                          Revert import
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
                   </div>
                 </div>
               </div>
@@ -192,6 +232,29 @@ export function BatchManager({
           )}
         </div>
       </div>
+
+      <AlertDialog open={!!revertTarget} onOpenChange={(open) => { if (!open) setRevertTarget(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revert {revertTarget?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Jobs created by this import will be removed and jobs it changed will get their previous values back.
+              Other jobs are not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (revertTarget) onBatchRevert?.(revertTarget.id);
+                setRevertTarget(null);
+              }}
+            >
+              Revert Import
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Card>
   );
 }
\ No newline at end of file
@@ -1,12 +1,63 @@
-import { useState } from "react";
+import { useState, useMemo, useEffect, useCallback } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Upload, AlertCircle, CheckCircle } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Upload,
+  AlertCircle,
+  AlertTriangle,
+  CheckCircle,
+  CalendarDays,
+  ClipboardPaste,
+  Download,
+  FileText,
+  Info,
+  X
+} from "lucide-react";
 import { cn } from "@/lib/utils";
+import {
+  readCSVHead,
+  isBlankRow,
+  rowsToCSV,
+  downloadCSV,
+  detectImportLayout,
+  parsePastedRows,
+  detectTextEncoding,
+  IMPORT_LAYOUT_LABELS
+} from "@/utils/csvUtils";
+import type { CSVDelimiter, PastedRows } from "@/utils/csvUtils";
+import { jsonExportToRows } from "@/utils/exportUtils";
+import { readXLSX } from "@/utils/xlsxUtils";
+import type { XLSXWorkbook } from "@/utils/xlsxUtils";
+import type { ReportSummary } from "@/utils/reportUtils";
+import { importIssuesToCSV, countSkippedDuplicates } from "@/utils/batchUtils";
+import type { BatchParseOptions, ImportBatchMode } from "@/utils/batchUtils";
+import { DATE_COLUMNS, DATE_FORMATS } from "@/utils/dateUtils";
+import type { DateFormat, DateFormatOverrides } from "@/utils/dateUtils";
+import {
+  JOB_FIELDS,
+  loadMappingProfiles,
+  findProfileForHeaders,
+} from "@/utils/columnMapping";
+import type { ColumnMapping, MappingProfile } from "@/utils/columnMapping";
+import { runValidationRules, isFileLevelIssue } from "@/utils/validationRules";
+import type { BatchRuleSettings, ImportIssue } from "@/utils/validationRules";
+import { ColumnMappingStep } from "./ColumnMappingStep";
+import type { Job } from "./JobTable";
+import { useImportWorker, importProgressPercent } from "@/hooks/use-import-worker";
+import type { ImportProgress } from "@/hooks/use-import-worker";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import type { ImportWorkerResult } from "@/workers/importWorker";
+import { CUSTOM_FIELD_TYPES } from "@/utils/customFields";
+import type { CustomFieldDefinition, CustomFieldType } from "@/utils/customFields";
 
 export interface BatchInfo {
   id: string;
@@ -15,22 +66,214 @@ export interface BatchInfo {
   uploadDate: string;
   uploadedBy: string;
   jobCount: number;
+  reportSummary?: ReportSummary;
 }
 
+export interface ImportFileRequest {
+  file: File;
+  // The caller assigns the batch ID when the import runs
+  batchInfo: BatchInfo;
+  options: BatchParseOptions;
+}
+
+// One selected file, pasted range or workbook sheet with its own mapping and preview
+interface ImportFileEntry {
+  id: number;
+  // What the user picked; workbooks keep their reader for sheet switching
+  source: File;
+  workbook?: XLSXWorkbook;
+  sheetName?: string;
+  pasted?: PastedRows;
+  // CSV content the worker reads: the file itself, the chosen sheet or the paste
+  file: File;
+  // Head of the file for layout detection and the mapping step
+  rows: string[][];
+  columnMapping: ColumnMapping;
+  activeProfile?: MappingProfile;
+  dateFormats: DateFormatOverrides;
+  preview: ImportWorkerResult | null;
+  error?: string;
+}
+
+const NO_ROWS: string[][] = [];
+const NO_MAPPING: ColumnMapping = {};
+const NO_DATE_FORMATS: DateFormatOverrides = {};
+
+// Delimited text in any export encoding and delimiter, JSON exports and workbooks
+const SUPPORTED_FILES = /\.(csv|tsv|txt|json|xlsx)$/i;
+
+const DELIMITER_NAMES: Record<CSVDelimiter, string> = { ',': 'comma', '\t': 'tab', ';': 'semicolon', '|': 'pipe' };
+
+let nextEntryId = 1;
+
 interface CSVImportModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onImport: (file: File, batchInfo: BatchInfo) => void;
+  // A single file always arrives as one per-file request
+  onImport: (requests: ImportFileRequest[], mode: ImportBatchMode) => void;
   nextBatchId: string;
+  // Lets the preview run the referential rules against the workspace
+  existingJobs?: Job[];
+  // Workspace field registry; registered columns keep their type
+  customFields?: CustomFieldDefinition[];
+  // Workspace overrides of the validation rule severities
+  ruleSettings?: BatchRuleSettings;
+  importProgress?: ImportProgress | null;
+  // Which of several files is being imported
+  importStep?: { current: number; total: number; fileName: string } | null;
+  onCancelImport?: () => void;
 }
 
-export function CSVImportModal({ open, onOpenChange, onImport, nextBatchId }: CSVImportModalProps) {
-  const [file, setFile] = useState<File | null>(null);
+export function CSVImportModal({
+  open,
+  onOpenChange,
+  onImport,
+  nextBatchId,
+  existingJobs,
+  customFields,
+  ruleSettings,
+  importProgress,
+  importStep,
+  onCancelImport
+}: CSVImportModalProps) {
+  const [entries, setEntries] = useState<ImportFileEntry[]>([]);
+  const { actor } = useCurrentUser();
+  const [activeId, setActiveId] = useState<number | null>(null);
+  const [batchMode, setBatchMode] = useState<ImportBatchMode>('per-file');
   const [batchType, setBatchType] = useState<'Fresh' | 'QCed'>('Fresh');
   const [batchName, setBatchName] = useState('');
   const [dragActive, setDragActive] = useState(false);
   const [errors, setErrors] = useState<string[]>([]);
-  const [validationStatus, setValidationStatus] = useState<'idle' | 'validating' | 'valid' | 'invalid'>('idle');
+  const [loading, setLoading] = useState(false);
+  const [profiles, setProfiles] = useState<MappingProfile[]>(() => loadMappingProfiles());
+  // Types chosen here for columns the registry does not know yet
+  const [customFieldTypes, setCustomFieldTypes] = useState<Record<string, CustomFieldDefinition>>({});
+  const [source, setSource] = useState<'file' | 'paste'>('file');
+  const [pasteText, setPasteText] = useState('');
+  const { run: runPreview, cancel: cancelPreview, progress: previewProgress } = useImportWorker();
+
+  // The form below always shows the active entry
+  const activeEntry = entries.find(entry => entry.id === activeId) || null;
+  const file = activeEntry?.file ?? null;
+  const rows = activeEntry?.rows ?? NO_ROWS;
+  const columnMapping = activeEntry?.columnMapping ?? NO_MAPPING;
+  const activeProfile = activeEntry?.activeProfile;
+  const dateFormats = activeEntry?.dateFormats ?? NO_DATE_FORMATS;
+  const preview = activeEntry?.preview ?? null;
+  const workbook = activeEntry?.workbook;
+  const pasted = activeEntry?.pasted;
+
+  const updateEntry = useCallback((id: number, patch: Partial<ImportFileEntry>) => {
+    setEntries(prev => prev.map(entry => entry.id === id ? { ...entry, ...patch } : entry));
+  }, []);
+
+  const setColumnMapping = (mapping: ColumnMapping) => {
+    if (activeEntry) updateEntry(activeEntry.id, { columnMapping: mapping, preview: null });
+  };
+
+  const setActiveProfile = (profile?: MappingProfile) => {
+    if (activeEntry) updateEntry(activeEntry.id, { activeProfile: profile });
+  };
+
+  const detection = useMemo(() => detectImportLayout(rows, customFields), [rows, customFields]);
+  const headers = detection.headers;
+  const sampleRow = useMemo(
+    () => rows.slice(detection.headerIndex + 1).find(row => !isBlankRow(row)) || [],
+    [rows, detection]
+  );
+  // Stays set between the files of a multi-file import
+  const importing = !!importProgress || !!importStep;
+
+  const fieldRegistry = useMemo(() => [
+    ...(customFields || []),
+    ...Object.values(customFieldTypes),
+  ], [customFields, customFieldTypes]);
+
+  // Data type, registry or rule changes affect every file's dry run
+  useEffect(() => {
+    setEntries(prev => prev.map(entry => entry.preview ? { ...entry, preview: null } : entry));
+  }, [batchType, fieldRegistry, existingJobs, ruleSettings]);
+
+  // Dry-run one file at a time in the worker, the active one first
+  const needsPreview = (entry: ImportFileEntry) => !entry.preview && !entry.error && entry.rows.length > 0;
+  const pendingEntry = (activeEntry && needsPreview(activeEntry) ? activeEntry : null) || entries.find(needsPreview) || null;
+
+  useEffect(() => {
+    if (!pendingEntry) return;
+    let active = true;
+    const previewBatch: BatchInfo = {
+      id: nextBatchId,
+      name: '',
+      type: batchType,
+      uploadDate: '',
+      uploadedBy: '',
+      jobCount: 0
+    };
+
+    const { id, file: entryFile, dateFormats: entryDateFormats, columnMapping: entryMapping } = pendingEntry;
+    runPreview({
+      file: entryFile,
+      batchInfo: previewBatch,
+      options: { dateFormats: entryDateFormats, columnMapping: entryMapping, customFields: fieldRegistry, ruleSettings },
+      existingJobs,
+      previewOnly: true
+    })
+      .then(result => {
+        if (active && result) updateEntry(id, { preview: result });
+      })
+      .catch(() => {
+        if (active) updateEntry(id, { error: 'Failed to parse CSV file' });
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [pendingEntry, batchType, nextBatchId, existingJobs, fieldRegistry, ruleSettings, runPreview, updateEntry]);
+
+  const validationErrors = useMemo(() => {
+    if (!file || loading || errors.length > 0) return [];
+    if (activeEntry.error) return [activeEntry.error];
+
+    // Same rule registry the parser runs; file-level rules only need the header
+    const columnIssues = runValidationRules(
+      { batchType, headers, mapping: columnMapping, headerRow: detection.headerIndex + 1, rows: [] },
+      ruleSettings?.[batchType],
+      'file'
+    ).filter(issue => issue.severity === 'error');
+
+    const byMessage = new Map<string, string[]>();
+    columnIssues.forEach(issue => byMessage.set(issue.message, [...(byMessage.get(issue.message) || []), issue.column]));
+    const result = [...byMessage].map(([message, columns]) => `${message}: ${columns.join(', ')}`);
+
+    if (preview && preview.rowCount === 0) {
+      result.push('CSV file must contain at least a header row and one data row');
+    }
+
+    return result;
+  }, [file, activeEntry, loading, errors, preview, headers, detection, columnMapping, batchType, ruleSettings]);
+
+  const validationStatus: 'idle' | 'validating' | 'valid' | 'invalid' =
+    !file ? 'idle' :
+    errors.length > 0 || validationErrors.length > 0 ? 'invalid' :
+    loading || !preview ? 'validating' : 'valid';
+
+  const resetForm = useCallback(() => {
+    cancelPreview();
+    setEntries([]);
+    setActiveId(null);
+    setBatchMode('per-file');
+    setBatchName('');
+    setBatchType('Fresh');
+    setErrors([]);
+    setCustomFieldTypes({});
+    setSource('file');
+    setPasteText('');
+  }, [cancelPreview]);
+
+  // The parent closes the dialog once an import finishes
+  useEffect(() => {
+    if (!open) resetForm();
+  }, [open, resetForm]);
 
   const handleDrag = (e: React.DragEvent) => {
     e.preventDefault();
@@ -48,127 +291,228 @@ export function CSVImportModal({ open, onOpenChange, onImport, nextBatchId }: CS
     setDragActive(false);
     
     const files = e.dataTransfer.files;
-    if (files && files[0]) {
-      handleFileSelect(files[0]);
+    if (files && files.length > 0) {
+      handleFilesSelect(Array.from(files));
     }
   };
 
-  const handleFileSelect = async (selectedFile: File) => {
-    if (!selectedFile.name.toLowerCase().endsWith('.csv')) {
-      setErrors(['Please select a CSV file']);
-      return;
+  // Only the head is needed for mapping; the full file is validated in the worker
+  const readHead = async (csvFile: File) => {
+    const headRows = await readCSVHead(csvFile);
+    const headDetection = detectImportLayout(headRows, customFields);
+
+    // A saved profile for this exact header set wins over the heuristic proposal
+    const profile = findProfileForHeaders(profiles, headDetection.headers);
+    return {
+      file: csvFile,
+      rows: headRows,
+      columnMapping: profile ? profile.mapping : headDetection.mapping,
+      activeProfile: profile,
+      dateFormats: {},
+      preview: null
+    };
+  };
+
+  // The chosen sheet becomes a CSV file so the rest of the pipeline is shared
+  const sheetToFile = (source: File, reader: XLSXWorkbook, name: string) => {
+    const baseName = source.name.replace(/\.xlsx$/i, '');
+    return new File([rowsToCSV(reader.readSheet(name))], `${baseName} - ${name}.csv`, { type: 'text/csv' });
+  };
+
+  // JSON exports are converted the same way, under the CSV export's column labels
+  const jsonToFile = async (source: File) => {
+    const bytes = new Uint8Array(await source.arrayBuffer());
+    const rows = jsonExportToRows(new TextDecoder(detectTextEncoding(bytes)).decode(bytes), customFields);
+    return new File([rowsToCSV(rows)], source.name.replace(/\.json$/i, '.csv'), { type: 'text/csv' });
+  };
+
+  const readEntry = async (source: File): Promise<ImportFileEntry> => {
+    const id = nextEntryId++;
+    const isWorkbook = /\.xlsx$/i.test(source.name);
+    const isJSON = /\.json$/i.test(source.name);
+    try {
+      if (isJSON) return { id, source, ...(await readHead(await jsonToFile(source))) };
+      if (!isWorkbook) return { id, source, ...(await readHead(source)) };
+
+      const reader = await readXLSX(source);
+      if (reader.sheetNames.length === 0) throw new Error('Workbook has no sheets');
+      const sheetName = reader.sheetNames[0];
+      return { id, source, workbook: reader, sheetName, ...(await readHead(sheetToFile(source, reader, sheetName))) };
+    } catch {
+      return {
+        id,
+        source,
+        file: source,
+        rows: [],
+        columnMapping: {},
+        dateFormats: {},
+        preview: null,
+        error: isWorkbook ? 'Failed to read Excel workbook' : isJSON ? 'Failed to read JSON export' : 'Failed to parse CSV file'
+      };
     }
+  };
+
+  const isSameFile = (a: File, b: File) => a.name === b.name && a.size === b.size && a.lastModified === b.lastModified;
+
+  // Added files join the session; the first new one becomes active
+  const handleFilesSelect = async (selectedFiles: File[]) => {
+    const supported = selectedFiles.filter(f => SUPPORTED_FILES.test(f.name));
+    const unsupported = selectedFiles.filter(f => !supported.includes(f));
+    const fresh = supported.filter(f => !entries.some(entry => isSameFile(entry.source, f)));
+    setErrors(unsupported.length > 0
+      ? [`Please select CSV, TSV, JSON or Excel (.xlsx) files; skipped ${unsupported.map(f => f.name).join(', ')}`]
+      : []);
+    if (fresh.length === 0) return;
+
+    setLoading(true);
+    const added: ImportFileEntry[] = [];
+    for (const selected of fresh) {
+      added.push(await readEntry(selected));
+    }
+    setEntries(prev => [...prev, ...added]);
+    setActiveId(added[0].id);
+    setLoading(false);
+  };
+
+  const removeEntry = (id: number) => {
+    const remaining = entries.filter(entry => entry.id !== id);
+    setEntries(remaining);
+    if (activeId === id) setActiveId(remaining[0]?.id ?? null);
+  };
 
-    setFile(selectedFile);
+  // Pasted ranges become a CSV file too, so mapping, validation and import match file uploads
+  const loadPastedText = async (text: string) => {
+    const result = parsePastedRows(text);
+    if (result.rows.length === 0) {
+      setErrors(['Nothing to import in the pasted text']);
+      return;
+    }
     setErrors([]);
-    setValidationStatus('validating');
+    setLoading(true);
+    const source = new File([rowsToCSV(result.rows)], 'Pasted data.csv', { type: 'text/csv' });
+    const entry: ImportFileEntry = { id: nextEntryId++, source, pasted: result, ...(await readHead(source)) };
+    // A new paste replaces the previous one
+    setEntries(prev => [...prev.filter(e => !e.pasted), entry]);
+    setActiveId(entry.id);
+    setLoading(false);
+  };
 
-    // Simulate CSV validation
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const text = e.clipboardData.getData('text/plain');
+    if (!text) return;
+    e.preventDefault();
+    setPasteText(text);
+    loadPastedText(text);
+  };
+
+  const handleSheetChange = async (name: string) => {
+    if (!activeEntry?.workbook) return;
+    const { id, source, workbook: reader } = activeEntry;
     try {
-      const content = await selectedFile.text();
-      const lines = content.split('\n');
-      const headers = lines[0]?.toLowerCase().split(',').map(h => h.trim());
-      
-      const requiredFreshColumns = ['job_id', 'ref_id', 'client_file_name'];
-      const requiredQCColumns = ['job_id', 'client_file', 'data_status', 'making_date', 'qc_name', 'qc_date', 'qc_status', 'action'];
-      
-      const validationErrors: string[] = [];
-      
-      if (batchType === 'Fresh') {
-        const missingColumns = requiredFreshColumns.filter(col => 
-          !headers.some(h => h.includes(col.replace('_', '')) || h.includes(col))
-        );
-        if (missingColumns.length > 0) {
-          validationErrors.push(`Missing required columns for Fresh Data: ${missingColumns.join(', ')}`);
-        }
-      } else {
-        const missingColumns = requiredQCColumns.filter(col => 
-          !headers.some(h => h.includes(col.replace('_', '')) || h.includes(col))
-        );
-        if (missingColumns.length > 0) {
-          validationErrors.push(`Missing required columns for QC'ed Data: ${missingColumns.join(', ')}`);
-        }
-      }
-
-      // Check for duplicate job IDs
-      const jobIds = new Set();
-      const duplicates: string[] = [];
-      
-      for (let i = 1; i < lines.length; i++) {
-        const line = lines[i].trim();
-        if (!line) continue;
-        
-        const jobId = line.split(',')[0]?.trim();
-        if (jobId) {
-          if (jobIds.has(jobId)) {
-            duplicates.push(`Row ${i + 1}: ${jobId}`);
-          }
-          jobIds.add(jobId);
-        }
-      }
-      
-      if (duplicates.length > 0) {
-        validationErrors.push(`Duplicate Job IDs found: ${duplicates.slice(0, 5).join(', ')}${duplicates.length > 5 ? ` and ${duplicates.length - 5} more...` : ''}`);
-      }
-
-      if (validationErrors.length > 0) {
-        setErrors(validationErrors);
-        setValidationStatus('invalid');
-      } else {
-        setValidationStatus('valid');
-      }
-    } catch (error) {
-      setErrors(['Failed to parse CSV file']);
-      setValidationStatus('invalid');
+      updateEntry(id, { sheetName: name, ...(await readHead(sheetToFile(source, reader, name))) });
+    } catch {
+      setErrors([`Failed to read sheet "${name}"`]);
     }
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0];
-    if (selectedFile) {
-      handleFileSelect(selectedFile);
+    const selectedFiles = Array.from(e.target.files || []);
+    // Lets the same file be picked again after removing it
+    e.target.value = '';
+    if (selectedFiles.length > 0) {
+      handleFilesSelect(selectedFiles);
     }
   };
 
+  const multiFile = entries.length > 1;
+  const perFileBatches = !multiFile || batchMode === 'per-file';
+
+  const duplicateCounts = useMemo(() => countSkippedDuplicates(
+    entries.map(entry => entry.preview?.jobIds ?? []),
+    existingJobs || [],
+    batchType,
+    multiFile ? batchMode : 'per-file'
+  ), [entries, existingJobs, batchType, batchMode, multiFile]);
+
+  // The active entry also counts its live header checks, before the dry run finishes
+  const entryStatus = (entry: ImportFileEntry): 'validating' | 'valid' | 'invalid' => {
+    if (entry.error || (entry.id === activeId && validationErrors.length > 0)) return 'invalid';
+    if (!entry.preview) return 'validating';
+    const { parse, rowCount } = entry.preview;
+    const fileRejected = parse.issues.some(issue => issue.severity === 'error' && isFileLevelIssue(issue));
+    return fileRejected || rowCount === 0 || rowCount === parse.invalidRowCount ? 'invalid' : 'valid';
+  };
+  const canImport = entries.length > 0 && !loading && errors.length === 0 && entries.every(entry => entryStatus(entry) === 'valid');
+
   const handleImport = () => {
-    if (!file) return;
+    if (!canImport) return;
 
     const finalBatchName = batchName.trim() || `Batch-${nextBatchId}`;
-    const batchInfo: BatchInfo = {
-      id: nextBatchId,
-      name: finalBatchName,
-      type: batchType,
-      uploadDate: new Date().toISOString(),
-      uploadedBy: 'Current User', // In real app, get from auth
-      jobCount: 0 // Will be calculated after parsing
-    };
+    const uploadDate = new Date().toISOString();
+    const requests: ImportFileRequest[] = entries.map(entry => ({
+      file: entry.file,
+      batchInfo: {
+        id: nextBatchId,
+        // Separate batches are named after their file
+        name: multiFile && perFileBatches ? entry.file.name.replace(/\.csv$/i, '') : finalBatchName,
+        type: batchType,
+        uploadDate,
+        uploadedBy: actor,
+        jobCount: 0 // Will be calculated after parsing
+      },
+      options: { dateFormats: entry.dateFormats, columnMapping: entry.columnMapping, customFields: fieldRegistry, ruleSettings }
+    }));
 
-    onImport(file, batchInfo);
-    
-    // Reset form
-    setFile(null);
-    setBatchName('');
-    setBatchType('Fresh');
-    setErrors([]);
-    setValidationStatus('idle');
+    onImport(requests, perFileBatches ? 'per-file' : 'combined');
   };
 
-  const resetForm = () => {
-    setFile(null);
-    setBatchName('');
-    setBatchType('Fresh');
-    setErrors([]);
-    setValidationStatus('idle');
+  const handleCustomFieldTypeChange = (field: CustomFieldDefinition, value: string) => {
+    setCustomFieldTypes(prev => ({ ...prev, [field.key]: { key: field.key, label: field.label, type: value as CustomFieldType } }));
+  };
+
+  const handleDateFormatChange = (column: keyof DateFormatOverrides, value: string) => {
+    if (!activeEntry) return;
+    const next = { ...dateFormats };
+    if (value === 'auto') {
+      delete next[column];
+    } else {
+      next[column] = value as DateFormat;
+    }
+    updateEntry(activeEntry.id, { dateFormats: next, preview: null });
+  };
+
+  const rowIssues = preview?.parse.issues.filter(issue => !isFileLevelIssue(issue)) ?? [];
+  const rowErrors = rowIssues.filter(issue => issue.severity === 'error');
+  const rowWarnings = rowIssues.filter(issue => issue.severity === 'warning');
+  const rowNotes = rowIssues.filter(issue => issue.severity === 'info');
+
+  const renderIssueLines = (issues: ImportIssue[]) => (
+    <>
+      {issues.slice(0, 5).map((issue, index) => (
+        <div key={index} className="text-xs">
+          Row {issue.row}, {issue.column}: "{issue.value}" — {issue.message}
+        </div>
+      ))}
+      {issues.length > 5 && (
+        <div className="text-xs">and {issues.length - 5} more...</div>
+      )}
+    </>
+  );
+
+  const handleDownloadIssueReport = () => {
+    if (!preview) return;
+    const baseName = file?.name.replace(/\.csv$/i, '') || 'import';
+    downloadCSV(importIssuesToCSV(preview.parse.issues), `${baseName}_import_errors.csv`);
   };
 
   return (
     <Dialog open={open} onOpenChange={(open) => {
+      if (!open && importing) onCancelImport?.();
       onOpenChange(open);
-      if (!open) resetForm();
     }}>
-      <DialogContent className="max-w-2xl">
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle className="text-xl font-semibold">Import CSV Data</DialogTitle>
+          <DialogTitle className="text-xl font-semibold">Import Data</DialogTitle>
         </DialogHeader>
 
         <div className="space-y-6">
@@ -196,78 +540,394 @@ export function CSVImportModal({ open, onOpenChange, onImport, nextBatchId }: CS
               id="batchName"
               value={batchName}
               onChange={(e) => setBatchName(e.target.value)}
-              placeholder={`Auto-generated: Batch-${nextBatchId}`}
+              disabled={multiFile && perFileBatches}
+              placeholder={multiFile && perFileBatches ? 'Named after each file' : `Auto-generated: Batch-${nextBatchId}`}
               className="w-full"
             />
           </div>
 
-          {/* File Upload */}
-          <div className="space-y-2">
-            <Label className="text-sm font-medium">CSV File</Label>
-            <div
-              className={cn(
-                "border-2 border-dashed rounded-lg p-8 text-center transition-colors",
-                dragActive ? "border-primary bg-primary/5" : "border-border",
-                file && validationStatus === 'valid' ? "border-success bg-success/5" : "",
-                file && validationStatus === 'invalid' ? "border-destructive bg-destructive/5" : ""
-              )}
-              onDragEnter={handleDrag}
-              onDragLeave={handleDrag}
-              onDragOver={handleDrag}
-              onDrop={handleDrop}
-            >
-              <input
-                type="file"
-                accept=".csv"
-                onChange={handleFileChange}
-                className="hidden"
-                id="csv-upload"
-              />
-              <label htmlFor="csv-upload" className="cursor-pointer">
-                <div className="flex flex-col items-center space-y-3">
-                  {validationStatus === 'valid' ? (
-                    <CheckCircle className="h-12 w-12 text-success" />
-                  ) : (
-                    <Upload className="h-12 w-12 text-muted-foreground" />
-                  )}
-                  <div>
-                    <p className="text-sm font-medium">
-                      {file ? file.name : "Drag & drop CSV file here, or click to browse"}
-                    </p>
-                    <p className="text-xs text-muted-foreground mt-1">
-                      {batchType === 'Fresh' 
-                        ? "Required columns: job_id, ref_id, client_file_name"
-                        : "Required columns: job_id, client_file, data_status, making_date, qc_name, qc_date, qc_status, action"
-                      }
-                    </p>
+          {/* Data Source */}
+          <Tabs value={source} onValueChange={(value) => setSource(value as 'file' | 'paste')} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-sm font-medium">Data Source</Label>
+              <TabsList>
+                <TabsTrigger value="file" disabled={importing}>File</TabsTrigger>
+                <TabsTrigger value="paste" disabled={importing}>Paste</TabsTrigger>
+              </TabsList>
+            </div>
+            <TabsContent value="file" className="mt-0">
+              <div
+                className={cn(
+                  "border-2 border-dashed rounded-lg p-8 text-center transition-colors",
+                  dragActive ? "border-primary bg-primary/5" : "border-border",
+                  file && validationStatus === 'valid' ? "border-success bg-success/5" : "",
+                  file && validationStatus === 'invalid' ? "border-destructive bg-destructive/5" : ""
+                )}
+                onDragEnter={handleDrag}
+                onDragLeave={handleDrag}
+                onDragOver={handleDrag}
+                onDrop={handleDrop}
+              >
+                <input
+                  type="file"
+                  accept=".csv,.tsv,.txt,.json,.xlsx"
+                  multiple
+                  onChange={handleFileChange}
+                  className="hidden"
+                  id="csv-upload"
+                />
+                <label htmlFor="csv-upload" className="cursor-pointer">
+                  <div className="flex flex-col items-center space-y-3">
+                    {validationStatus === 'valid' ? (
+                      <CheckCircle className="h-12 w-12 text-success" />
+                    ) : (
+                      <Upload className="h-12 w-12 text-muted-foreground" />
+                    )}
+                    <div>
+                      <p className="text-sm font-medium">
+                        {multiFile
+                          ? `${entries.length} files selected; drop or browse to add more`
+                          : activeEntry
+                            ? activeEntry.source.name
+                            : "Drag & drop CSV, TSV, JSON or Excel files here, or click to browse"}
+                      </p>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Required fields: {JOB_FIELDS.filter(f => f.requiredFor.includes(batchType)).map(f => f.label).join(', ')}
+                      </p>
+                    </div>
                   </div>
+                </label>
+              </div>
+            </TabsContent>
+            <TabsContent value="paste" className="mt-0 space-y-2">
+              <Textarea
+                value={pasteText}
+                onChange={(e) => setPasteText(e.target.value)}
+                onPaste={handlePaste}
+                placeholder="Paste rows copied from Google Sheets or Excel, or comma-separated text"
+                className="font-mono text-xs min-h-[140px]"
+                disabled={importing}
+              />
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-xs text-muted-foreground">
+                  {pasted
+                    ? `${pasted.rows.length - 1} rows, ${DELIMITER_NAMES[pasted.delimiter]} separated` +
+                      (pasted.generatedHeader ? '; no header row found, columns are numbered' : '')
+                    : `Required fields: ${JOB_FIELDS.filter(f => f.requiredFor.includes(batchType)).map(f => f.label).join(', ')}`}
+                </p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  disabled={!pasteText.trim() || loading || importing}
+                  onClick={() => loadPastedText(pasteText)}
+                >
+                  <ClipboardPaste size={14} />
+                  Use Pasted Rows
+                </Button>
+              </div>
+            </TabsContent>
+          </Tabs>
+
+          {/* Files */}
+          {multiFile && (
+            <div className="space-y-3">
+              <Label className="text-sm font-medium">Files</Label>
+              <div className="border rounded-lg overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-border bg-muted/30 text-xs text-muted-foreground">
+                      <th className="text-left py-2 px-3 font-medium">File</th>
+                      <th className="text-right py-2 px-3 font-medium">Rows</th>
+                      <th className="text-right py-2 px-3 font-medium">Errors</th>
+                      <th className="text-right py-2 px-3 font-medium">Duplicates</th>
+                      <th className="w-10" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {entries.map((entry, index) => {
+                      const status = entryStatus(entry);
+                      return (
+                        <tr
+                          key={entry.id}
+                          onClick={() => setActiveId(entry.id)}
+                          className={cn(
+                            "border-b border-border/50 last:border-0 cursor-pointer hover:bg-muted/30",
+                            entry.id === activeId && "bg-primary/5"
+                          )}
+                        >
+                          <td className="py-2 px-3 max-w-[260px]">
+                            <div className="flex items-center gap-2">
+                              <FileText size={14} className={cn(
+                                "shrink-0",
+                                status === 'valid' ? "text-success" : status === 'invalid' ? "text-destructive" : "text-muted-foreground"
+                              )} />
+                              <span className="truncate">{entry.file.name}</span>
+                            </div>
+                          </td>
+                          {entry.preview ? (
+                            <>
+                              <td className="py-2 px-3 text-right tabular-nums">{entry.preview.rowCount}</td>
+                              <td className={cn("py-2 px-3 text-right tabular-nums", entry.preview.parse.invalidRowCount > 0 && "text-destructive")}>
+                                {entry.preview.parse.invalidRowCount}
+                              </td>
+                              <td className={cn("py-2 px-3 text-right tabular-nums", duplicateCounts[index] > 0 && "text-warning")}>
+                                {duplicateCounts[index]}
+                              </td>
+                            </>
+                          ) : (
+                            <td colSpan={3} className="py-2 px-3 text-right text-xs text-muted-foreground">
+                              {entry.error || 'Validating...'}
+                            </td>
+                          )}
+                          <td className="py-2 px-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-7 w-7 p-0"
+                              disabled={importing}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                removeEntry(entry.id);
+                              }}
+                            >
+                              <X size={14} />
+                            </Button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Select a file to review its column mapping and issues. Duplicates are rows whose Job ID
+                {batchType === 'Fresh' ? ' already exists or' : ''} appears in an earlier file and will be skipped.
+              </p>
+              <RadioGroup value={batchMode} onValueChange={(value) => setBatchMode(value as ImportBatchMode)}>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="per-file" id="per-file" />
+                  <Label htmlFor="per-file" className="text-sm">One batch per file, named after the file</Label>
                 </div>
-              </label>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="combined" id="combined" />
+                  <Label htmlFor="combined" className="text-sm">One combined batch</Label>
+                </div>
+              </RadioGroup>
             </div>
-          </div>
+          )}
+
+          {/* Sheet */}
+          {workbook && workbook.sheetNames.length > 1 && (
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Sheet{multiFile ? ` of ${activeEntry.source.name}` : ''}</Label>
+              <Select value={activeEntry.sheetName} onValueChange={handleSheetChange} disabled={loading || importing}>
+                <SelectTrigger className="w-[240px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {workbook.sheetNames.map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
 
           {/* Validation Status */}
-          {validationStatus === 'validating' && (
+          {validationStatus === 'validating' && !importing && (
             <Alert>
               <AlertCircle className="h-4 w-4" />
-              <AlertDescription>Validating CSV structure...</AlertDescription>
+              <AlertDescription className="space-y-2">
+                <span>Validating CSV structure...</span>
+                {previewProgress && <Progress value={importProgressPercent(previewProgress)} className="h-2" />}
+              </AlertDescription>
             </Alert>
           )}
 
-          {validationStatus === 'valid' && (
+          {importing && importProgress && (
+            <Alert>
+              <Upload className="h-4 w-4" />
+              <AlertDescription className="space-y-2">
+                <span>
+                  {importStep && importStep.total > 1 && `File ${importStep.current} of ${importStep.total} (${importStep.fileName}): `}
+                  {importProgress.phase === 'reading' ? 'Reading file' : importProgress.phase === 'validating' ? 'Validating rows' : 'Merging jobs'}...
+                </span>
+                <Progress value={importProgressPercent(importProgress)} className="h-2" />
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {validationStatus === 'valid' && preview && (
             <Alert className="border-success bg-success/10">
               <CheckCircle className="h-4 w-4 text-success" />
-              <AlertDescription className="text-success">CSV validation successful! Ready to import.</AlertDescription>
+              <AlertDescription className="text-success">
+                Validation successful! {preview.rowCount - preview.parse.invalidRowCount} rows ready to import.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* Column Mapping */}
+          {file && !loading && errors.length === 0 && headers.length > 0 && (
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              Detected layout:
+              <Badge variant="outline">{IMPORT_LAYOUT_LABELS[detection.layout]}</Badge>
+              {detection.headerIndex > 0 && <span>header on row {detection.headerIndex + 1}</span>}
+            </div>
+          )}
+          {file && !loading && errors.length === 0 && headers.length > 0 && (
+            <ColumnMappingStep
+              key={`${file.name}-${file.lastModified}`}
+              headers={headers}
+              sampleRow={sampleRow}
+              batchType={batchType}
+              mapping={columnMapping}
+              onMappingChange={setColumnMapping}
+              profiles={profiles}
+              onProfilesChange={setProfiles}
+              activeProfile={activeProfile}
+              onActiveProfileChange={setActiveProfile}
+            />
+          )}
+
+          {/* Date Formats */}
+          {preview && DATE_COLUMNS.some(({ key }) => preview.parse.dateFormats[key].sampleSize > 0) && (
+            <div className="space-y-3">
+              <Label className="text-sm font-medium flex items-center gap-2">
+                <CalendarDays size={14} />
+                Date Formats
+              </Label>
+              <div className="space-y-2">
+                {DATE_COLUMNS.filter(({ key }) => preview.parse.dateFormats[key].sampleSize > 0).map(({ key, label }) => {
+                  const detection = preview.parse.dateFormats[key];
+                  return (
+                    <div key={key} className="flex items-center justify-between gap-3">
+                      <div className="flex items-center gap-2 text-sm">
+                        <span>{label}</span>
+                        {detection.ambiguous && (
+                          <Badge variant="warning" className="text-xs">Ambiguous</Badge>
+                        )}
+                      </div>
+                      <Select
+                        value={dateFormats[key] || 'auto'}
+                        onValueChange={(value) => handleDateFormatChange(key, value)}
+                      >
+                        <SelectTrigger className="w-[220px] h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="auto">
+                            Auto{detection.format && !dateFormats[key] ? ` (${detection.format})` : ''}
+                          </SelectItem>
+                          {DATE_FORMATS.map(format => (
+                            <SelectItem key={format} value={format}>{format}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {/* Custom Fields */}
+          {preview && preview.parse.customFields.length > 0 && (
+            <div className="space-y-3">
+              <Label className="text-sm font-medium">Kept as custom fields</Label>
+              <div className="space-y-2">
+                {preview.parse.customFields.map(field => {
+                  const registered = customFields?.some(f => f.key === field.key);
+                  return (
+                    <div key={field.key} className="flex items-center justify-between gap-3">
+                      <div className="flex items-center gap-2 text-sm">
+                        <span>{field.label}</span>
+                        {!registered && <Badge variant="outline" className="text-xs">New</Badge>}
+                      </div>
+                      <Select
+                        value={field.type}
+                        disabled={registered}
+                        onValueChange={(value) => handleCustomFieldTypeChange(field, value)}
+                      >
+                        <SelectTrigger className="w-[220px] h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CUSTOM_FIELD_TYPES.map(type => (
+                            <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {/* Notes */}
+          {rowNotes.length > 0 && (
+            <Alert>
+              <Info className="h-4 w-4" />
+              <AlertDescription>
+                <div className="space-y-1">
+                  <div className="font-medium">
+                    {rowNotes.length} note{rowNotes.length === 1 ? '' : 's'} about how rows will be applied
+                  </div>
+                  {renderIssueLines(rowNotes)}
+                </div>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* Warnings */}
+          {rowWarnings.length > 0 && (
+            <Alert className="border-warning bg-warning/10">
+              <AlertTriangle className="h-4 w-4 text-warning" />
+              <AlertDescription>
+                <div className="space-y-1">
+                  <div className="font-medium">
+                    {rowWarnings.length} warning{rowWarnings.length === 1 ? '' : 's'}; these rows will still be imported
+                  </div>
+                  {renderIssueLines(rowWarnings)}
+                </div>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* Row Errors */}
+          {preview && rowErrors.length > 0 && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                <div className="space-y-1">
+                  <div className="flex items-center justify-between gap-3">
+                    <span className="font-medium">
+                      {preview.parse.invalidRowCount} row{preview.parse.invalidRowCount === 1 ? '' : 's'} failed validation and will not be imported
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleDownloadIssueReport}
+                      className="h-7 gap-1 text-xs shrink-0"
+                    >
+                      <Download size={12} />
+                      Error Report
+                    </Button>
+                  </div>
+                  {renderIssueLines(rowErrors)}
+                </div>
+              </AlertDescription>
             </Alert>
           )}
 
           {/* Errors */}
-          {errors.length > 0 && (
+          {[...errors, ...validationErrors].length > 0 && (
             <Alert variant="destructive">
               <AlertCircle className="h-4 w-4" />
               <AlertDescription>
                 <div className="space-y-1">
-                  {errors.map((error, index) => (
+                  {[...errors, ...validationErrors].map((error, index) => (
                     <div key={index}>{error}</div>
                   ))}
                 </div>
@@ -277,16 +937,22 @@ export function CSVImportModal({ open, onOpenChange, onImport, nextBatchId }: CS
         </div>
 
         <DialogFooter>
-          <Button variant="outline" onClick={() => onOpenChange(false)}>
-            Cancel
-          </Button>
+          {importing ? (
+            <Button variant="outline" onClick={onCancelImport}>
+              Cancel Import
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+          )}
           <Button 
             onClick={handleImport}
-            disabled={!file || validationStatus !== 'valid'}
+            disabled={importing || !canImport}
             className="gap-2"
           >
             <Upload size={16} />
-            Import Batch
+            {multiFile && perFileBatches ? `Import ${entries.length} Batches` : 'Import Batch'}
           </Button>
         </DialogFooter>
       </DialogContent>
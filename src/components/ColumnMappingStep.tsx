@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Columns3, Save, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  JOB_FIELDS,
+  saveMappingProfile,
+  deleteMappingProfile,
+} from "@/utils/columnMapping";
+import type { ColumnMapping, MappingProfile } from "@/utils/columnMapping";
+
+const NOT_MAPPED = '__not_mapped__';
+
+interface ColumnMappingStepProps {
+  headers: string[];
+  sampleRow: string[];
+  batchType: 'Fresh' | 'QCed';
+  mapping: ColumnMapping;
+  onMappingChange: (mapping: ColumnMapping) => void;
+  profiles: MappingProfile[];
+  onProfilesChange: (profiles: MappingProfile[]) => void;
+  activeProfile?: MappingProfile;
+  onActiveProfileChange: (profile?: MappingProfile) => void;
+}
+
+export function ColumnMappingStep({
+  headers,
+  sampleRow,
+  batchType,
+  mapping,
+  onMappingChange,
+  profiles,
+  onProfilesChange,
+  activeProfile,
+  onActiveProfileChange
+}: ColumnMappingStepProps) {
+  const [client, setClient] = useState(activeProfile?.client || '');
+  const [profileName, setProfileName] = useState(activeProfile?.name || '');
+
+  const headerOptions = [...new Set(headers.filter(h => h.trim() !== ''))];
+
+  const handleFieldChange = (field: keyof ColumnMapping, header: string) => {
+    const next = { ...mapping };
+    if (header === NOT_MAPPED) {
+      delete next[field];
+    } else {
+      // A column feeds one field only, so release it from any other field
+      (Object.keys(next) as (keyof ColumnMapping)[]).forEach(key => {
+        if (next[key] === header) delete next[key];
+      });
+      next[field] = header;
+    }
+    onMappingChange(next);
+  };
+
+  const handleProfileSelect = (profileId: string) => {
+    const profile = profiles.find(p => p.id === profileId);
+    if (!profile) return;
+    onMappingChange(profile.mapping);
+    onActiveProfileChange(profile);
+    setClient(profile.client);
+    setProfileName(profile.name);
+  };
+
+  const handleSaveProfile = () => {
+    if (!client.trim() || !profileName.trim()) return;
+    const next = saveMappingProfile({
+      client: client.trim(),
+      name: profileName.trim(),
+      headers,
+      mapping
+    });
+    onProfilesChange(next);
+    onActiveProfileChange(next.find(p =>
+      p.client.toLowerCase() === client.trim().toLowerCase() && p.name.toLowerCase() === profileName.trim().toLowerCase()
+    ));
+  };
+
+  const handleDeleteProfile = () => {
+    if (!activeProfile) return;
+    onProfilesChange(deleteMappingProfile(activeProfile.id));
+    onActiveProfileChange(undefined);
+  };
+
+  const sampleFor = (header?: string) => {
+    if (!header) return '';
+    const index = headers.indexOf(header);
+    return index >= 0 ? sampleRow[index] || '' : '';
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium flex items-center gap-2">
+          <Columns3 size={14} />
+          Column Mapping
+        </Label>
+        {activeProfile && (
+          <Badge variant="outline" className="text-xs">
+            Profile: {activeProfile.client} / {activeProfile.name}
+          </Badge>
+        )}
+      </div>
+
+      {profiles.length > 0 && (
+        <Select value={activeProfile?.id || ''} onValueChange={handleProfileSelect}>
+          <SelectTrigger className="h-8">
+            <SelectValue placeholder="Load a saved mapping profile..." />
+          </SelectTrigger>
+          <SelectContent>
+            {profiles.map(profile => (
+              <SelectItem key={profile.id} value={profile.id}>
+                {profile.client} — {profile.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      <div className="border rounded-lg overflow-hidden">
+        <table className="w-full border-collapse text-sm">
+          <thead>
+            <tr className="border-b border-border bg-muted/30">
+              <th className="text-left py-2 px-3 font-semibold">Field</th>
+              <th className="text-left py-2 px-3 font-semibold">Source Column</th>
+              <th className="text-left py-2 px-3 font-semibold">Sample</th>
+            </tr>
+          </thead>
+          <tbody>
+            {JOB_FIELDS.map(field => {
+              const required = field.requiredFor.includes(batchType);
+              const header = mapping[field.key];
+              return (
+                <tr key={field.key} className="border-b border-border/50">
+                  <td className="py-1.5 px-3">
+                    {field.label}
+                    {required && <span className="text-destructive ml-1">*</span>}
+                    {field.hint && <p className="text-xs text-muted-foreground">{field.hint}</p>}
+                  </td>
+                  <td className="py-1.5 px-3">
+                    <Select
+                      value={header || NOT_MAPPED}
+                      onValueChange={(value) => handleFieldChange(field.key, value)}
+                    >
+                      <SelectTrigger className={cn("h-8 w-[200px]", required && !header && "border-destructive")}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                        {headerOptions.map(h => (
+                          <SelectItem key={h} value={h}>{h}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </td>
+                  <td className="py-1.5 px-3 text-muted-foreground max-w-[160px] truncate">
+                    {sampleFor(header)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Input
+          value={client}
+          onChange={(e) => setClient(e.target.value)}
+          placeholder="Client"
+          className="h-8"
+        />
+        <Input
+          value={profileName}
+          onChange={(e) => setProfileName(e.target.value)}
+          placeholder="Profile name"
+          className="h-8"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleSaveProfile}
+          disabled={!client.trim() || !profileName.trim()}
+          className="h-8 gap-1 shrink-0"
+        >
+          <Save size={14} />
+          Save Profile
+        </Button>
+        {activeProfile && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleDeleteProfile}
+            className="h-8 w-8 p-0 shrink-0"
+          >
+            <Trash2 size={14} />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { useState } from "react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { UserCircle } from "lucide-react";
+import { useCurrentUser } from "@/hooks/use-current-user";
+
+/** Shows and changes the name recorded with this browser's changes. */
+export function CurrentUserButton() {
+  const { name, setName } = useCurrentUser();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState(name);
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) setDraft(name);
+    setOpen(next);
+  };
+
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault();
+    setName(draft);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="secondary" className="gap-2">
+          <UserCircle size={16} />
+          {name || 'Set your name'}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72">
+        <form onSubmit={handleSave} className="space-y-3">
+          <div className="space-y-1.5">
+            <Label htmlFor="current-user-name" className="text-sm font-medium">Your name</Label>
+            <Input
+              id="current-user-name"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder="e.g. Virat"
+              autoFocus
+            />
+            <p className="text-xs text-muted-foreground">
+              Recorded with your imports, status changes and assignments in the audit log.
+            </p>
+          </div>
+          <Button type="submit" size="sm" className="w-full">Save</Button>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+}
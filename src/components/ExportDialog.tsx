@@ -0,0 +1,242 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronDown, ChevronUp, Download } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Job } from "./JobTable";
+import type { BatchInfo } from "./CSVImportModal";
+import {
+  EXPORT_FORMATS,
+  EXPORT_ENCODINGS,
+  CSV_DELIMITERS,
+  DEFAULT_EXPORT_OPTIONS,
+  formatJobsForExport,
+  buildJobsWorkbook,
+  downloadExport,
+  downloadWorkbook,
+  exportFileName,
+  exportColumnsFor,
+  exportColumnLabel,
+} from "@/utils/exportUtils";
+import type { ExportColumnKey, ExportEncoding, ExportFormat, ExportOptions } from "@/utils/exportUtils";
+import type { CustomFieldDefinition } from "@/utils/customFields";
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  // File name without extension
+  fileBaseName: string;
+  jobs: Job[];
+  // Jobs left after the caller's filters; omit when there is no filter to honour
+  filteredJobs?: Job[];
+  // Batch details for the workbook summary sheet
+  batches?: BatchInfo[];
+  // Workspace custom fields, offered after the fixed columns
+  customFields?: CustomFieldDefinition[];
+}
+
+export function ExportDialog({
+  open,
+  onOpenChange,
+  title,
+  fileBaseName,
+  jobs,
+  filteredJobs,
+  batches = [],
+  customFields = []
+}: ExportDialogProps) {
+  // Custom fields are selected by default so an export re-imports without loss
+  const [options, setOptions] = useState<ExportOptions>(() => ({
+    ...DEFAULT_EXPORT_OPTIONS,
+    columns: exportColumnsFor(customFields).map(c => c.key),
+  }));
+  // Full column order; options.columns is the checked subset in this order
+  const [columnOrder, setColumnOrder] = useState<ExportColumnKey[]>(() => exportColumnsFor(customFields).map(c => c.key));
+  const [filteredOnly, setFilteredOnly] = useState(true);
+
+  const canFilter = !!filteredJobs && filteredJobs.length !== jobs.length;
+  const exportJobs = canFilter && filteredOnly ? filteredJobs : jobs;
+
+  const updateColumns = (order: ExportColumnKey[], selected: Set<ExportColumnKey>) => {
+    setColumnOrder(order);
+    setOptions(prev => ({ ...prev, columns: order.filter(key => selected.has(key)) }));
+  };
+
+  const toggleColumn = (key: ExportColumnKey, checked: boolean) => {
+    const selected = new Set(options.columns);
+    if (checked) selected.add(key); else selected.delete(key);
+    updateColumns(columnOrder, selected);
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= columnOrder.length) return;
+    const order = [...columnOrder];
+    [order[index], order[target]] = [order[target], order[index]];
+    updateColumns(order, new Set(options.columns));
+  };
+
+  const isWorkbook = options.format === 'xlsx';
+
+  const handleExport = () => {
+    if (isWorkbook) {
+      downloadWorkbook(buildJobsWorkbook(exportJobs, batches, options.columns, customFields), fileBaseName);
+    } else {
+      downloadExport(formatJobsForExport(exportJobs, options, customFields), fileBaseName, options);
+    }
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold flex items-center gap-2">
+            <Download size={20} />
+            {title}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          {/* Scope */}
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="export-filtered"
+              checked={canFilter && filteredOnly}
+              disabled={!canFilter}
+              onCheckedChange={(checked) => setFilteredOnly(checked === true)}
+            />
+            <Label htmlFor="export-filtered" className={cn("text-sm", !canFilter && "text-muted-foreground")}>
+              Current filter only
+              {canFilter && ` (${filteredJobs.length} of ${jobs.length} jobs)`}
+            </Label>
+          </div>
+
+          {/* Format */}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Format</Label>
+              <Select
+                value={options.format}
+                onValueChange={(value) => setOptions(prev => ({ ...prev, format: value as ExportFormat }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPORT_FORMATS.map(format => (
+                    <SelectItem key={format.value} value={format.value}>{format.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Delimiter</Label>
+              <Select
+                value={options.delimiter}
+                disabled={options.format !== 'csv'}
+                onValueChange={(value) => setOptions(prev => ({ ...prev, delimiter: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CSV_DELIMITERS.map(delimiter => (
+                    <SelectItem key={delimiter.value} value={delimiter.value}>{delimiter.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Encoding</Label>
+              <Select
+                value={options.encoding}
+                disabled={isWorkbook}
+                onValueChange={(value) => setOptions(prev => ({ ...prev, encoding: value as ExportEncoding }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPORT_ENCODINGS.map(encoding => (
+                    <SelectItem key={encoding.value} value={encoding.value}>{encoding.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="export-guard"
+              checked={options.guardFormulas}
+              disabled={options.format === 'json' || isWorkbook}
+              onCheckedChange={(checked) => setOptions(prev => ({ ...prev, guardFormulas: checked === true }))}
+            />
+            <Label htmlFor="export-guard" className="text-sm">
+              Protect against spreadsheet formulas (prefixes ' to text starting with =, +, - or @; removed again on import)
+            </Label>
+          </div>
+
+          {/* Columns */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-sm font-medium">Columns</Label>
+              <span className="text-xs text-muted-foreground">
+                {options.columns.length} of {columnOrder.length} selected
+              </span>
+            </div>
+            <div className="border rounded-lg divide-y">
+              {columnOrder.map((key, index) => (
+                <div key={key} className="flex items-center gap-3 px-3 py-1.5">
+                  <Checkbox
+                    id={`export-column-${key}`}
+                    checked={options.columns.includes(key)}
+                    onCheckedChange={(checked) => toggleColumn(key, checked === true)}
+                  />
+                  <Label htmlFor={`export-column-${key}`} className="flex-1 text-sm">{exportColumnLabel(key, customFields)}</Label>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    disabled={index === 0}
+                    onClick={() => moveColumn(index, -1)}
+                  >
+                    <ChevronUp size={14} />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    disabled={index === columnOrder.length - 1}
+                    onClick={() => moveColumn(index, 1)}
+                  >
+                    <ChevronDown size={14} />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleExport}
+            disabled={options.columns.length === 0}
+            className="gap-2"
+          >
+            <Download size={16} />
+            Export {exportJobs.length} jobs to {exportFileName(fileBaseName, options.format)}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
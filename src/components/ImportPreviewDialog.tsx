@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowRight, Ban, GitMerge, ShieldAlert } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Job } from "./JobTable";
+import type { BatchInfo } from "./CSVImportModal";
+import {
+  MERGE_FIELDS,
+  MERGE_POLICIES,
+  DEFAULT_MERGE_OPTIONS,
+  diffImport,
+  countAppliedChanges,
+} from "@/utils/mergeUtils";
+import type { FieldChange, ImportDiff, JobDiff, MergeOptions, MergePolicy } from "@/utils/mergeUtils";
+import { customFieldKeyOf } from "@/utils/customFields";
+import type { CustomFieldDefinition } from "@/utils/customFields";
+import type { QCWorkflow } from "@/utils/qcWorkflow";
+
+// Rendering every row of a large drop would freeze the dialog
+const MAX_VISIBLE_ROWS = 200;
+
+interface ImportPreviewDialogProps {
+  open: boolean;
+  batchInfo: BatchInfo;
+  existingJobs: Job[];
+  incomingJobs: Job[];
+  // Diff already computed with the default options, e.g. by the import worker
+  initialDiff?: ImportDiff;
+  // Registry plus the file's new fields, for custom field labels
+  customFields?: CustomFieldDefinition[];
+  // Status updates it cannot reach are shown but can't be accepted
+  workflow?: QCWorkflow;
+  onConfirm: (diff: ImportDiff) => void;
+  onCancel: () => void;
+}
+
+function fieldLabel(field: FieldChange['field'], customFields: CustomFieldDefinition[]): string {
+  const customKey = customFieldKeyOf(field);
+  if (customKey) return customFields.find(f => f.key === customKey)?.label || customKey;
+  return MERGE_FIELDS.find(f => f.key === field)?.label || field;
+}
+
+export function ImportPreviewDialog({
+  open,
+  batchInfo,
+  existingJobs,
+  incomingJobs,
+  initialDiff,
+  customFields = [],
+  workflow,
+  onConfirm,
+  onCancel
+}: ImportPreviewDialogProps) {
+  const [options, setOptions] = useState<MergeOptions>({ ...DEFAULT_MERGE_OPTIONS, workflow });
+  const [diff, setDiff] = useState<ImportDiff>(() => initialDiff ?? diffImport(existingJobs, incomingJobs, options));
+
+  const applied = countAppliedChanges(diff);
+  const blockedCount = diff.updates.filter(entry => entry.changes.some(change => change.blocked)).length;
+
+  const updateOptions = (next: MergeOptions) => {
+    setOptions(next);
+    // Policy changes reset per-field decisions to the new defaults
+    setDiff(diffImport(existingJobs, incomingJobs, next));
+  };
+
+  const setCreateAccepted = (jid: string, accepted: boolean) => {
+    setDiff(prev => ({
+      ...prev,
+      creates: prev.creates.map(entry => entry.jid === jid ? { ...entry, accepted } : entry)
+    }));
+  };
+
+  const setUpdateAccepted = (jid: string, accepted: boolean, field?: FieldChange['field']) => {
+    setDiff(prev => ({
+      ...prev,
+      updates: prev.updates.map(entry => entry.jid !== jid ? entry : {
+        ...entry,
+        changes: entry.changes.map(change =>
+          !field || change.field === field ? { ...change, accepted: accepted && !change.blocked } : change
+        )
+      })
+    }));
+  };
+
+  const setAll = (accepted: boolean) => {
+    setDiff(prev => ({
+      ...prev,
+      creates: prev.creates.map(entry => ({ ...entry, accepted })),
+      updates: prev.updates.map(entry => ({
+        ...entry,
+        changes: entry.changes.map(change => ({ ...change, accepted: accepted && !change.blocked }))
+      }))
+    }));
+  };
+
+  const renderTruncationNote = (total: number) => total > MAX_VISIBLE_ROWS && (
+    <p className="text-xs text-muted-foreground py-2">
+      Showing first {MAX_VISIBLE_ROWS} of {total} jobs. Use the bulk actions to decide the rest.
+    </p>
+  );
+
+  const renderUpdate = (entry: JobDiff) => {
+    const acceptedCount = entry.changes.filter(c => c.accepted).length;
+    const acceptableCount = entry.changes.filter(c => !c.blocked).length;
+    return (
+      <div key={entry.jid} className="border rounded-lg p-3 space-y-2">
+        <div className="flex items-center gap-3">
+          <Checkbox
+            checked={acceptedCount > 0 && acceptedCount === acceptableCount ? true : acceptedCount === 0 ? false : 'indeterminate'}
+            disabled={acceptableCount === 0}
+            onCheckedChange={(checked) => setUpdateAccepted(entry.jid, checked === true)}
+          />
+          <span className="font-mono text-sm">{entry.jid}</span>
+          <Badge variant="outline" className="text-xs">
+            {acceptedCount}/{entry.changes.length} fields
+          </Badge>
+          {entry.policyNote && (
+            <span className="flex items-center gap-1 text-xs text-warning">
+              <ShieldAlert size={12} />
+              {entry.policyNote}
+            </span>
+          )}
+        </div>
+        <div className="pl-7 space-y-1">
+          {entry.changes.map(change => (
+            <div key={change.field} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={change.accepted}
+                disabled={!!change.blocked}
+                onCheckedChange={(checked) => setUpdateAccepted(entry.jid, checked === true, change.field)}
+              />
+              <span className="w-32 text-muted-foreground">{fieldLabel(change.field, customFields)}</span>
+              <span className={cn("truncate max-w-[180px]", change.accepted && "line-through text-muted-foreground")}>
+                {change.before || <em className="text-muted-foreground">empty</em>}
+              </span>
+              <ArrowRight size={12} className="shrink-0 text-muted-foreground" />
+              <span className={cn("truncate max-w-[180px]", change.accepted ? "font-medium" : "text-muted-foreground")}>
+                {change.after}
+              </span>
+              {change.blocked && (
+                <span className="flex items-center gap-1 text-xs text-destructive">
+                  <Ban size={12} />
+                  {change.blocked}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen) onCancel(); }}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold flex items-center gap-2">
+            <GitMerge size={20} />
+            Review Import: {batchInfo.name}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          {/* Merge Options */}
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Merge Policy</Label>
+              <Select
+                value={options.policy}
+                onValueChange={(value) => updateOptions({ ...options, policy: value as MergePolicy })}
+              >
+                <SelectTrigger className="w-[240px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MERGE_POLICIES.map(policy => (
+                    <SelectItem key={policy.value} value={policy.value}>{policy.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2 pb-2">
+              <Checkbox
+                id="keep-batch"
+                checked={options.keepBatchAssignment}
+                onCheckedChange={(checked) => updateOptions({ ...options, keepBatchAssignment: checked === true })}
+              />
+              <Label htmlFor="keep-batch" className="text-sm">Keep existing jobs in their original batch</Label>
+            </div>
+            <div className="flex items-center gap-2 ml-auto">
+              <Button variant="outline" size="sm" onClick={() => setAll(true)}>Accept all</Button>
+              <Button variant="outline" size="sm" onClick={() => setAll(false)}>Reject all</Button>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {MERGE_POLICIES.find(p => p.value === options.policy)?.description}. Blank cells in the file never clear existing values.
+            {blockedCount > 0 && ` ${blockedCount} jobs keep their QC status because the workflow does not allow the change.`}
+          </p>
+
+          <Tabs defaultValue={diff.updates.length > 0 ? 'updates' : 'creates'}>
+            <TabsList>
+              <TabsTrigger value="creates">New ({diff.creates.length})</TabsTrigger>
+              <TabsTrigger value="updates">Changed ({diff.updates.length})</TabsTrigger>
+              <TabsTrigger value="unchanged">Unchanged ({diff.unchanged.length})</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="creates" className="space-y-2">
+              {diff.creates.length === 0 && <p className="text-sm text-muted-foreground py-4">No new jobs in this file.</p>}
+              {diff.creates.slice(0, MAX_VISIBLE_ROWS).map(entry => (
+                <div key={entry.jid} className="flex items-center gap-3 border rounded-lg p-3 text-sm">
+                  <Checkbox
+                    checked={entry.accepted}
+                    onCheckedChange={(checked) => setCreateAccepted(entry.jid, checked === true)}
+                  />
+                  <span className="font-mono">{entry.jid}</span>
+                  <span className="truncate text-muted-foreground">{entry.incoming.clientFileName}</span>
+                  <Badge variant="outline" className="ml-auto">{entry.incoming.qcStatus}</Badge>
+                </div>
+              ))}
+              {renderTruncationNote(diff.creates.length)}
+            </TabsContent>
+
+            <TabsContent value="updates" className="space-y-2">
+              {diff.updates.length === 0 && <p className="text-sm text-muted-foreground py-4">No existing jobs change.</p>}
+              {diff.updates.slice(0, MAX_VISIBLE_ROWS).map(renderUpdate)}
+              {renderTruncationNote(diff.updates.length)}
+            </TabsContent>
+
+            <TabsContent value="unchanged" className="space-y-1">
+              {diff.unchanged.length === 0 && <p className="text-sm text-muted-foreground py-4">Every job in the file is new or changed.</p>}
+              {diff.unchanged.slice(0, MAX_VISIBLE_ROWS).map(entry => (
+                <div key={entry.jid} className="font-mono text-sm text-muted-foreground px-3 py-1">{entry.jid}</div>
+              ))}
+              {renderTruncationNote(diff.unchanged.length)}
+            </TabsContent>
+          </Tabs>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel Import
+          </Button>
+          <Button onClick={() => onConfirm(diff)} className="gap-2">
+            <GitMerge size={16} />
+            Apply {applied.created} new, {applied.updated} changed
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,127 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ClipboardList, Download } from "lucide-react";
+import { downloadCSV } from "@/utils/csvUtils";
+import { IMPORT_OUTCOME_LABELS, countOutcomes, importResultsToCSV, resultRows } from "@/utils/importResults";
+import type { ImportOutcome, ImportOutcomeRow, ImportResult } from "@/utils/importResults";
+
+// Rows listed per outcome; the download has all of them
+const MAX_LISTED_ROWS = 50;
+
+const OUTCOME_VARIANTS: Record<ImportOutcome, "success" | "secondary" | "warning" | "destructive" | "outline"> = {
+  added: "success",
+  updated: "secondary",
+  unchanged: "outline",
+  duplicate: "warning",
+  declined: "outline",
+  invalid: "destructive",
+};
+
+interface ImportSummaryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  results: ImportResult[];
+}
+
+function OutcomeBadges({ rows }: { rows: ImportOutcomeRow[] }) {
+  const counts = countOutcomes(rows);
+  return (
+    <div className="flex flex-wrap gap-2">
+      {(Object.keys(counts) as ImportOutcome[]).filter(outcome => counts[outcome] > 0).map(outcome => (
+        <Badge key={outcome} variant={OUTCOME_VARIANTS[outcome]} className="text-xs">
+          {IMPORT_OUTCOME_LABELS[outcome]}: {counts[outcome]}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+function OutcomeList({ title, rows }: { title: string; rows: ImportOutcomeRow[] }) {
+  if (rows.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      <div className="text-xs font-medium text-muted-foreground">{title}</div>
+      <div className="border rounded-lg divide-y max-h-40 overflow-y-auto">
+        {rows.slice(0, MAX_LISTED_ROWS).map((row, index) => (
+          <div key={index} className="flex items-center gap-3 px-3 py-1.5 text-xs">
+            <span className="font-mono w-32 truncate">{row.jid || '—'}</span>
+            {row.row && <span className="text-muted-foreground w-16">Row {row.row}</span>}
+            <span className="flex-1 text-muted-foreground">{row.detail}</span>
+          </div>
+        ))}
+        {rows.length > MAX_LISTED_ROWS && (
+          <div className="px-3 py-1.5 text-xs text-muted-foreground">
+            and {rows.length - MAX_LISTED_ROWS} more in the download
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function ImportSummaryDialog({ open, onOpenChange, results }: ImportSummaryDialogProps) {
+  const allRows = results.flatMap(resultRows);
+
+  const handleDownload = () => {
+    const timestamp = new Date().toISOString().split('T')[0];
+    downloadCSV(importResultsToCSV(results), `import_summary_${timestamp}.csv`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold flex items-center gap-2">
+            <ClipboardList size={20} />
+            Import Summary
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          {results.length > 1 && <OutcomeBadges rows={allRows} />}
+
+          {results.map(result => {
+            const rows = resultRows(result);
+            return (
+              <div key={result.batch.id} className="space-y-3 border rounded-lg p-4">
+                <div className="flex items-center justify-between gap-3">
+                  <div>
+                    <div className="font-semibold">{result.batch.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {result.batch.id} • {result.batch.type} • {result.batch.jobCount} jobs in batch
+                    </div>
+                  </div>
+                  <OutcomeBadges rows={rows} />
+                </div>
+
+                {result.files.length > 1 && (
+                  <div className="space-y-1">
+                    {result.files.map(file => (
+                      <div key={file.fileName} className="flex items-center justify-between gap-3 text-xs">
+                        <span className="truncate">{file.fileName}</span>
+                        <OutcomeBadges rows={file.rows} />
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <OutcomeList title="Skipped duplicates" rows={rows.filter(row => row.outcome === 'duplicate')} />
+                <OutcomeList title="Invalid rows" rows={rows.filter(row => row.outcome === 'invalid')} />
+                <OutcomeList title="Status changes blocked by the QC workflow" rows={rows.filter(row => row.statusBlocked)} />
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleDownload} className="gap-2">
+            <Download size={16} />
+            Download Summary
+          </Button>
+          <Button onClick={() => onOpenChange(false)}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,65 @@
+import { useMemo } from "react";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { History } from "lucide-react";
+import { AuditEventEntry } from "@/components/AuditEventEntry";
+import { ReworkCycleList } from "@/components/ReworkCycleList";
+import { useAuditLog, useJobs } from "@/hooks/use-workspace";
+import { jobAuditHistory } from "@/utils/auditLog";
+import type { AuditEvent } from "@/utils/auditLog";
+import type { CustomFieldDefinition } from "@/utils/customFields";
+import type { Job } from "@/components/JobTable";
+
+interface JobHistorySheetProps {
+  // The job whose history is shown; null closes the sheet
+  jid: string | null;
+  onClose: () => void;
+  customFields?: CustomFieldDefinition[];
+}
+
+const NO_EVENTS: AuditEvent[] = [];
+const NO_JOBS: Job[] = [];
+
+export function JobHistorySheet({ jid, onClose, customFields = [] }: JobHistorySheetProps) {
+  const { data: auditLog = NO_EVENTS } = useAuditLog();
+  const { data: jobs = NO_JOBS } = useJobs();
+  const history = useMemo(() => jid ? jobAuditHistory(auditLog, jid) : NO_EVENTS, [auditLog, jid]);
+  const cycles = jobs.find(job => job.jid === jid)?.reworkCycles ?? [];
+
+  return (
+    <Sheet open={jid !== null} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History size={18} />
+            Job History
+          </SheetTitle>
+          <SheetDescription>
+            <span className="font-mono">{jid}</span> • {history.length} {history.length === 1 ? 'change' : 'changes'}, newest first
+          </SheetDescription>
+        </SheetHeader>
+
+        {cycles.length > 0 && (
+          <div className="mt-6 space-y-2">
+            <h3 className="text-sm font-semibold">
+              Rework Cycles <span className="font-normal text-muted-foreground">• {cycles.length}</span>
+            </h3>
+            <ReworkCycleList cycles={cycles} />
+          </div>
+        )}
+
+        <div className="mt-6 space-y-2">
+          {cycles.length > 0 && <h3 className="text-sm font-semibold">Changes</h3>}
+          {history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No changes have been recorded for this job.</p>
+          ) : (
+            <div className="border rounded-lg divide-y">
+              {history.map(event => (
+                <AuditEventEntry key={event.id} event={event} customFields={customFields} />
+              ))}
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -5,8 +5,34 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
-import { ChevronLeft, ChevronRight, Download, Upload, Search, UserPlus, Users } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ChevronLeft, ChevronRight, Columns3, Download, History, ListChecks, Redo2, Undo2, Upload, Search, UserPlus, Users } from "lucide-react";
+import { ToastAction } from "@/components/ui/toast";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { useAssignJobs, useUpdateJobs } from "@/hooks/use-workspace";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useJobUndo } from "@/hooks/use-job-undo";
+import { JobHistorySheet } from "@/components/JobHistorySheet";
+import { RejectJobsDialog } from "@/components/RejectJobsDialog";
+import { assignJob, stampJob } from "@/utils/workspaceRepository";
+import { createAuditEvents } from "@/utils/auditLog";
+import { QC_STATUSES } from "@/utils/schemas";
+import type { QCStatus } from "@/utils/schemas";
+import { DEFAULT_QC_WORKFLOW, allowedTransitions, canTransition, transitionBlockedReason, transitionJob } from "@/utils/qcWorkflow";
+import type { QCWorkflow } from "@/utils/qcWorkflow";
+import type { ReworkCycle } from "@/utils/reworkCycles";
+import { applyRejectionDetails } from "@/utils/rejectReasons";
+import type { RejectionDetails } from "@/utils/rejectReasons";
+import { formatCustomValue, matchesCustomFilter } from "@/utils/customFields";
+import type { CustomFieldDefinition, CustomFieldValue } from "@/utils/customFields";
 
 export interface Job {
   jid: string;
@@ -14,27 +40,43 @@ export interface Job {
   clientFileName: string;
   dataStatus: string;
   makingDate: string;
+  makingDateISO?: string;
   qcName: string;
   qcDate: string;
+  qcDateISO?: string;
   qcStatus: string;
   rejectReason?: string;
+  // Reason taxonomy label and severity, recorded by the rejection dialog
+  rejectCategory?: string;
+  errorSeverity?: string;
   reworkDate?: string;
+  reworkDateISO?: string;
   comment?: string;
   batchId?: string;
   assignedTo?: string;
   assignedDate?: string;
   assignedBy?: string;
+  // Unmapped import columns by registry key
+  customFields?: Record<string, CustomFieldValue>;
+  // Every rejection and its rework, oldest first; see trackReworkCycle
+  reworkCycles?: ReworkCycle[];
+  // Revision counter and time of the last write; see stampJob
+  version?: number;
+  updatedAt?: string;
 }
 
 interface JobTableProps {
   jobs: Job[];
-  onJobUpdate?: (job: Job) => void;
   onImportCSV?: (file: File) => void;
-  onExportCSV?: () => void;
+  // Receives the jobs left after the table's search and filters
+  onExport?: (filteredJobs: Job[]) => void;
   batchId?: string;
   showBatchControls?: boolean;
-  onJobAssign?: (jobIds: string[], assignedTo: string) => void;
   qcResources?: string[];
+  // Workspace field registry; each field can be shown as a column and filtered on
+  customFields?: CustomFieldDefinition[];
+  // Which status changes are allowed, here and in bulk
+  workflow?: QCWorkflow;
 }
 
 const ITEMS_PER_PAGE = 20;
@@ -43,19 +85,23 @@ const statusColors = {
   "Accepted": "success",
   "Rejected": "destructive", 
   "Output Not Found": "warning",
+  "In QC": "primary",
+  "In Rework": "warning",
+  "Re-QC": "primary",
+  "Hold": "muted",
   "Done": "secondary",
   "Pending": "muted",
 } as const;
 
 export function JobTable({ 
   jobs, 
-  onJobUpdate, 
   onImportCSV, 
-  onExportCSV, 
+  onExport, 
   batchId,
   showBatchControls = false,
-  onJobAssign,
-  qcResources = []
+  qcResources = [],
+  customFields = [],
+  workflow = DEFAULT_QC_WORKFLOW
 }: JobTableProps) {
   const [currentPage, setCurrentPage] = useState(1);
   const [searchTerm, setSearchTerm] = useState("");
@@ -63,6 +109,22 @@ export function JobTable({
   const [qcNameFilter, setQcNameFilter] = useState<string>("all");
   const [selectedJobs, setSelectedJobs] = useState<string[]>([]);
   const [assignTo, setAssignTo] = useState<string>("");
+  const [bulkStatus, setBulkStatus] = useState<string>("");
+  // Hidden rather than visible keys, so newly imported fields show up
+  const [hiddenCustomFields, setHiddenCustomFields] = useState<string[]>([]);
+  const [customFilterKey, setCustomFilterKey] = useState<string>("none");
+  const [customFilterValue, setCustomFilterValue] = useState("");
+  const [historyJobId, setHistoryJobId] = useState<string | null>(null);
+  // Rejections wait for the reason dialog; skipped counts selected jobs the workflow kept back
+  const [pendingRejection, setPendingRejection] = useState<{ jobIds: string[]; skipped: number } | null>(null);
+  const updateJobs = useUpdateJobs();
+  const assignJobs = useAssignJobs();
+  const { record, undo, redo, undoLabel, redoLabel } = useJobUndo();
+  const { actor } = useCurrentUser();
+  const { toast } = useToast();
+
+  const visibleCustomFields = customFields.filter(field => !hiddenCustomFields.includes(field.key));
+  const customFilterField = customFields.find(field => field.key === customFilterKey);
 
   const filteredJobs = useMemo(() => {
     let filteredList = jobs;
@@ -80,10 +142,11 @@ export function JobTable({
       
       const matchesStatus = statusFilter === "all" || job.qcStatus === statusFilter;
       const matchesQCName = qcNameFilter === "all" || job.qcName === qcNameFilter;
+      const matchesCustom = !customFilterField || matchesCustomFilter(job, customFilterField, customFilterValue);
       
-      return matchesSearch && matchesStatus && matchesQCName;
+      return matchesSearch && matchesStatus && matchesQCName && matchesCustom;
     });
-  }, [jobs, searchTerm, statusFilter, qcNameFilter, batchId]);
+  }, [jobs, searchTerm, statusFilter, qcNameFilter, batchId, customFilterField, customFilterValue]);
 
   const totalPages = Math.ceil(filteredJobs.length / ITEMS_PER_PAGE);
   const startIndex = (currentPage - 1) * ITEMS_PER_PAGE;
@@ -99,13 +162,68 @@ export function JobTable({
     }
   };
 
-  const handleStatusUpdate = (jobId: string, newStatus: string) => {
+  const undoAction = (stepId: string) => (
+    <ToastAction altText="Undo" onClick={() => undo(stepId)}>Undo</ToastAction>
+  );
+
+  // Writes a status change as one undoable step and confirms it in a toast
+  const commitStatusChange = (targets: Job[], status: QCStatus, skipped = 0, rejection?: RejectionDetails) => {
+    const at = new Date();
+    const updated = targets.map(job => stampJob(
+      transitionJob(rejection ? applyRejectionDetails(job, rejection) : job, status, workflow, actor, at),
+      at.toISOString()
+    ));
+    updateJobs.mutate({
+      jobs: updated,
+      audit: createAuditEvents(
+        targets.map((job, index) => ({ before: job, after: updated[index] })),
+        'status',
+        actor,
+        at.toISOString()
+      ),
+    });
+    const single = targets.length === 1 && skipped === 0;
+    const step = record(single ? `Status of ${targets[0].jid} to ${status}` : `Status of ${targets.length} jobs to ${status}`, targets, updated);
+    toast({
+      title: single ? "Job Updated" : "Jobs Updated",
+      description: single
+        ? `Job ${targets[0].jid} status updated to ${status}`
+        : `${targets.length} jobs set to ${status}` +
+          (skipped > 0 ? `; ${skipped} skipped because the workflow does not allow the change` : ''),
+      action: step ? undoAction(step.id) : undefined,
+    });
+  };
+
+  const handleStatusUpdate = (jobId: string, newStatus: QCStatus) => {
     const job = jobs.find(j => j.jid === jobId);
-    if (job && onJobUpdate) {
-      onJobUpdate({ ...job, qcStatus: newStatus });
+    if (job) {
+      if (!canTransition(workflow, job.qcStatus, newStatus)) {
+        toast({
+          title: "Status Not Changed",
+          description: transitionBlockedReason(job.qcStatus, newStatus),
+          variant: "destructive",
+        });
+        return;
+      }
+      if (newStatus === 'Rejected') {
+        setPendingRejection({ jobIds: [job.jid], skipped: 0 });
+        return;
+      }
+      commitStatusChange([job], newStatus);
     }
   };
 
+  const handleRejectConfirm = (details: RejectionDetails) => {
+    if (!pendingRejection) return;
+    // Read again, in case another tab moved a job while the dialog was open
+    const targets = jobs.filter(job =>
+      pendingRejection.jobIds.includes(job.jid) && canTransition(workflow, job.qcStatus, 'Rejected')
+    );
+    const skipped = pendingRejection.skipped + pendingRejection.jobIds.length - targets.length;
+    setPendingRejection(null);
+    if (targets.length > 0) commitStatusChange(targets, 'Rejected', skipped, details);
+  };
+
   const handleJobSelection = (jobId: string, selected: boolean) => {
     if (selected) {
       setSelectedJobs(prev => [...prev, jobId]);
@@ -122,14 +240,66 @@ export function JobTable({
     }
   };
 
+  const toggleCustomField = (key: string, visible: boolean) => {
+    setHiddenCustomFields(prev => visible ? prev.filter(k => k !== key) : [...prev, key]);
+  };
+
+  const handleCustomFilterFieldChange = (key: string) => {
+    setCustomFilterKey(key);
+    setCustomFilterValue("");
+  };
+
   const handleBulkAssign = () => {
-    if (selectedJobs.length > 0 && assignTo && onJobAssign) {
-      onJobAssign(selectedJobs, assignTo);
+    if (selectedJobs.length > 0 && assignTo) {
+      const assignment = { assignedTo: assignTo, assignedDate: new Date().toISOString(), assignedBy: actor };
+      const selected = jobs.filter(job => selectedJobs.includes(job.jid));
+      const assigned = selected.map(job => assignJob(job, assignment));
+      assignJobs.mutate({
+        jobIds: selectedJobs,
+        assignment,
+        audit: createAuditEvents(
+          selected.map((job, index) => ({ before: job, after: assigned[index] })),
+          'assignment',
+          actor,
+          assignment.assignedDate
+        ),
+      });
+      // One step for the whole selection, so a single undo takes it all back
+      const step = record(`Assign ${selected.length} jobs to ${assignTo}`, selected, assigned);
+      toast({
+        title: "Jobs Assigned",
+        description: `${selected.length} jobs assigned to ${assignTo}`,
+        action: step ? undoAction(step.id) : undefined,
+      });
       setSelectedJobs([]);
       setAssignTo("");
     }
   };
 
+  const handleBulkStatus = () => {
+    if (selectedJobs.length === 0 || !bulkStatus) return;
+    const status = bulkStatus as QCStatus;
+    const selected = jobs.filter(job => selectedJobs.includes(job.jid));
+    // Jobs the workflow does not let move there are left as they are
+    const movable = selected.filter(job => canTransition(workflow, job.qcStatus, status));
+    const skipped = selected.length - movable.length;
+    if (movable.length === 0) {
+      toast({
+        title: "Status Not Changed",
+        description: `None of the selected jobs can move to ${status}`,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (status === 'Rejected') {
+      setPendingRejection({ jobIds: movable.map(job => job.jid), skipped });
+    } else {
+      commitStatusChange(movable, status, skipped);
+    }
+    setSelectedJobs([]);
+    setBulkStatus("");
+  };
+
   return (
     <Card className="p-6 bg-gradient-card shadow-medium">
       <div className="space-y-6">
@@ -146,14 +316,30 @@ export function JobTable({
             )}
           </div>
           <div className="flex items-center gap-3">
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button variant="ghost" size="sm" onClick={() => undo()} disabled={!undoLabel} aria-label="Undo">
+                  <Undo2 size={16} />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>{undoLabel ? `Undo: ${undoLabel}` : 'Nothing to undo'} (Ctrl+Z)</TooltipContent>
+            </Tooltip>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button variant="ghost" size="sm" onClick={redo} disabled={!redoLabel} aria-label="Redo">
+                  <Redo2 size={16} />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>{redoLabel ? `Redo: ${redoLabel}` : 'Nothing to redo'} (Ctrl+Shift+Z)</TooltipContent>
+            </Tooltip>
             <Button 
-              onClick={onExportCSV}
+              onClick={() => onExport?.(filteredJobs)}
               variant="outline"
               size="sm"
               className="gap-2"
             >
               <Download size={16} />
-              Export CSV
+              Export
             </Button>
             {!batchId && (
               <div className="relative">
@@ -172,27 +358,45 @@ export function JobTable({
           </div>
         </div>
 
-        {/* Bulk Assignment Controls */}
-        {showBatchControls && selectedJobs.length > 0 && qcResources.length > 0 && (
+        {/* Bulk Controls */}
+        {showBatchControls && selectedJobs.length > 0 && (
           <div className="p-4 bg-primary/5 border border-primary/20 rounded-lg">
-            <div className="flex items-center gap-3">
+            <div className="flex flex-wrap items-center gap-3">
               <Users size={16} className="text-primary" />
               <span className="text-sm font-medium">
                 {selectedJobs.length} jobs selected
               </span>
-              <Select value={assignTo} onValueChange={setAssignTo}>
+              {qcResources.length > 0 && (
+                <>
+                  <Select value={assignTo} onValueChange={setAssignTo}>
+                    <SelectTrigger className="w-[180px]">
+                      <SelectValue placeholder="Assign to..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {qcResources.map(resource => (
+                        <SelectItem key={resource} value={resource}>{resource}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button onClick={handleBulkAssign} size="sm" className="gap-2">
+                    <UserPlus size={16} />
+                    Assign Jobs
+                  </Button>
+                </>
+              )}
+              <Select value={bulkStatus} onValueChange={setBulkStatus}>
                 <SelectTrigger className="w-[180px]">
-                  <SelectValue placeholder="Assign to..." />
+                  <SelectValue placeholder="Set status..." />
                 </SelectTrigger>
                 <SelectContent>
-                  {qcResources.map(resource => (
-                    <SelectItem key={resource} value={resource}>{resource}</SelectItem>
+                  {QC_STATUSES.map(status => (
+                    <SelectItem key={status} value={status}>{status}</SelectItem>
                   ))}
                 </SelectContent>
               </Select>
-              <Button onClick={handleBulkAssign} size="sm" className="gap-2">
-                <UserPlus size={16} />
-                Assign Jobs
+              <Button onClick={handleBulkStatus} size="sm" variant="secondary" className="gap-2" disabled={!bulkStatus}>
+                <ListChecks size={16} />
+                Set Status
               </Button>
             </div>
           </div>
@@ -231,6 +435,63 @@ export function JobTable({
               ))}
             </SelectContent>
           </Select>
+          {customFields.length > 0 && (
+            <>
+              <Select value={customFilterKey} onValueChange={handleCustomFilterFieldChange}>
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue placeholder="Custom field" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No field filter</SelectItem>
+                  {customFields.map(field => (
+                    <SelectItem key={field.key} value={field.key}>{field.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {customFilterField?.type === 'enum' && (
+                <Select value={customFilterValue || "all"} onValueChange={(value) => setCustomFilterValue(value === "all" ? "" : value)}>
+                  <SelectTrigger className="w-[160px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Any value</SelectItem>
+                    {(customFilterField.options || []).map(option => (
+                      <SelectItem key={option} value={option}>{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {customFilterField && customFilterField.type !== 'enum' && (
+                <Input
+                  placeholder={customFilterField.type === 'text' ? 'Contains...' : customFilterField.type === 'date' ? 'e.g. >=2025-09-01' : 'e.g. >10'}
+                  value={customFilterValue}
+                  onChange={(e) => setCustomFilterValue(e.target.value)}
+                  className="w-[160px]"
+                />
+              )}
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" className="gap-2">
+                    <Columns3 size={16} />
+                    Fields
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel>Custom fields</DropdownMenuLabel>
+                  {customFields.map(field => (
+                    <DropdownMenuCheckboxItem
+                      key={field.key}
+                      checked={!hiddenCustomFields.includes(field.key)}
+                      onCheckedChange={(checked) => toggleCustomField(field.key, checked === true)}
+                      onSelect={(event) => event.preventDefault()}
+                    >
+                      {field.label}
+                    </DropdownMenuCheckboxItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </>
+          )}
         </div>
 
         {/* Table */}
@@ -253,6 +514,9 @@ export function JobTable({
                 <th className="text-left py-3 px-4 font-semibold">QC Name</th>
                 <th className="text-left py-3 px-4 font-semibold">QC Date</th>
                 <th className="text-left py-3 px-4 font-semibold">QC Status</th>
+                {visibleCustomFields.map(field => (
+                  <th key={field.key} className="text-left py-3 px-4 font-semibold whitespace-nowrap">{field.label}</th>
+                ))}
                 {showBatchControls && <th className="text-left py-3 px-4 font-semibold">Assigned To</th>}
                 <th className="text-left py-3 px-4 font-semibold">Actions</th>
               </tr>
@@ -283,6 +547,11 @@ export function JobTable({
                       {job.qcStatus}
                     </Badge>
                   </td>
+                  {visibleCustomFields.map(field => (
+                    <td key={field.key} className={cn("py-3 px-4 text-sm", field.type === 'number' && "text-right tabular-nums")}>
+                      {formatCustomValue(job, field.key)}
+                    </td>
+                  ))}
                   {showBatchControls && (
                     <td className="py-3 px-4 text-sm">
                       {job.assignedTo || (
@@ -291,20 +560,33 @@ export function JobTable({
                     </td>
                   )}
                   <td className="py-3 px-4">
-                    <Select
-                      value={job.qcStatus}
-                      onValueChange={(value) => handleStatusUpdate(job.jid, value)}
-                    >
-                      <SelectTrigger className="w-[120px] h-8">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="Accepted">Accepted</SelectItem>
-                        <SelectItem value="Rejected">Rejected</SelectItem>
-                        <SelectItem value="Output Not Found">ONF</SelectItem>
-                        <SelectItem value="Not Started">Not Started</SelectItem>
-                      </SelectContent>
-                    </Select>
+                    <div className="flex items-center gap-1">
+                      <Select
+                        value={job.qcStatus}
+                        onValueChange={(value) => handleStatusUpdate(job.jid, value as QCStatus)}
+                      >
+                        <SelectTrigger className="w-[120px] h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {/* The current status, then only the moves the workflow allows */}
+                          {[job.qcStatus, ...allowedTransitions(workflow, job.qcStatus)].map(status => (
+                            <SelectItem key={status} value={status} disabled={status === job.qcStatus}>
+                              {status === 'Output Not Found' ? 'ONF' : status}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        onClick={() => setHistoryJobId(job.jid)}
+                        aria-label={`History of ${job.jid}`}
+                      >
+                        <History size={16} />
+                      </Button>
+                    </div>
                   </td>
                 </tr>
               ))}
@@ -359,6 +641,15 @@ export function JobTable({
           </div>
         </div>
       </div>
+
+      <JobHistorySheet jid={historyJobId} onClose={() => setHistoryJobId(null)} customFields={customFields} />
+      {pendingRejection && (
+        <RejectJobsDialog
+          jobIds={pendingRejection.jobIds}
+          onConfirm={handleRejectConfirm}
+          onCancel={() => setPendingRejection(null)}
+        />
+      )}
     </Card>
   );
 }
\ No newline at end of file
@@ -0,0 +1,114 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { ReactNode } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import type { Job } from "@/components/JobTable";
+import { ToastAction } from "@/components/ui/toast";
+import { toast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { JobUndoContext } from "@/hooks/use-job-undo";
+import type { JobUndo } from "@/hooks/use-job-undo";
+import { WORKSPACE_QUERY_KEY, useUpdateJobs } from "@/hooks/use-workspace";
+import { createAuditEvents } from "@/utils/auditLog";
+import { createJobEditStep, jobEditStepWrites, pushStep } from "@/utils/jobEditHistory";
+import type { JobEditStep } from "@/utils/jobEditHistory";
+import type { WorkspaceSnapshot } from "@/utils/workspaceRepository";
+
+interface JobUndoStacks {
+  undo: JobEditStep[];
+  redo: JobEditStep[];
+}
+
+const EMPTY_STACKS: JobUndoStacks = { undo: [], redo: [] };
+
+// Text fields keep the browser's own undo
+function isTextInput(target: EventTarget | null) {
+  return target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+}
+
+/**
+ * Undo and redo for job edits made in this tab, with Ctrl+Z and Ctrl+Shift+Z
+ * (Cmd on macOS). Undoing writes the edited fields back as a new revision, so
+ * other tabs and the audit log see it like any other edit.
+ */
+export function JobUndoProvider({ children }: { children: ReactNode }) {
+  const queryClient = useQueryClient();
+  const updateJobs = useUpdateJobs();
+  const { actor } = useCurrentUser();
+  const [stacks, setStacks] = useState<JobUndoStacks>(EMPTY_STACKS);
+  // Toast actions and key handlers outlive the render that created them
+  const latest = useRef({ stacks, actor, mutate: updateJobs.mutate });
+  latest.current = { ...latest.current, actor, mutate: updateJobs.mutate };
+
+  const updateStacks = useCallback((next: JobUndoStacks) => {
+    latest.current.stacks = next;
+    setStacks(next);
+  }, []);
+
+  const apply = useCallback((step: JobEditStep, direction: 'undo' | 'redo') => {
+    const jobs = queryClient.getQueryData<WorkspaceSnapshot>(WORKSPACE_QUERY_KEY)?.jobs || [];
+    const at = new Date().toISOString();
+    const writes = jobEditStepWrites(jobs, step, direction, at);
+    if (writes.length > 0) {
+      latest.current.mutate({
+        jobs: writes.map(write => write.after),
+        audit: createAuditEvents(writes, direction, latest.current.actor, at),
+      });
+    }
+  }, [queryClient]);
+
+  const redo = useCallback(() => {
+    const { undo: undoStack, redo: redoStack } = latest.current.stacks;
+    const step = redoStack[redoStack.length - 1];
+    if (!step) return;
+    updateStacks({ undo: pushStep(undoStack, step), redo: redoStack.slice(0, -1) });
+    apply(step, 'redo');
+    toast({ title: "Redone", description: step.label });
+  }, [apply, updateStacks]);
+
+  const undo = useCallback((stepId?: string) => {
+    const { undo: undoStack, redo: redoStack } = latest.current.stacks;
+    const step = stepId ? undoStack.find(s => s.id === stepId) : undoStack[undoStack.length - 1];
+    // Already undone, e.g. from the keyboard before the toast's button
+    if (!step) return;
+    updateStacks({ undo: undoStack.filter(s => s.id !== step.id), redo: pushStep(redoStack, step) });
+    apply(step, 'undo');
+    toast({
+      title: "Undone",
+      description: step.label,
+      action: <ToastAction altText="Redo" onClick={redo}>Redo</ToastAction>,
+    });
+  }, [apply, redo, updateStacks]);
+
+  const record = useCallback((label: string, before: Job[], after: Job[]) => {
+    const step = createJobEditStep(label, before, after);
+    if (step) updateStacks({ undo: pushStep(latest.current.stacks.undo, step), redo: [] });
+    return step;
+  }, [updateStacks]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isTextInput(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || (key === 'y' && !event.metaKey)) {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  const value = useMemo<JobUndo>(() => ({
+    undoLabel: stacks.undo[stacks.undo.length - 1]?.label,
+    redoLabel: stacks.redo[stacks.redo.length - 1]?.label,
+    record,
+    undo,
+    redo,
+  }), [stacks, record, undo, redo]);
+
+  return <JobUndoContext.Provider value={value}>{children}</JobUndoContext.Provider>;
+}
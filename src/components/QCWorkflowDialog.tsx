@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Workflow } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useSaveSettings, useSettings } from "@/hooks/use-workspace";
+import { QC_STATUSES } from "@/utils/schemas";
+import type { QCStatus } from "@/utils/schemas";
+import { DEFAULT_QC_WORKFLOW, QC_SIDE_EFFECT_LABELS } from "@/utils/qcWorkflow";
+import type { QCSideEffect, QCWorkflow } from "@/utils/qcWorkflow";
+import { DEFAULT_WORKSPACE_SETTINGS } from "@/utils/workspaceRepository";
+
+interface QCWorkflowDialogProps {
+  // Mounted per opening, so the draft starts from the saved workflow
+  onClose: () => void;
+}
+
+// Adds or removes one value, keeping the order of the full list
+const toggle = <T,>(values: T[], value: T, on: boolean, order: readonly T[]) =>
+  order.filter(item => item === value ? on : values.includes(item));
+
+/** Edits which status changes the workspace allows and what entering a status stamps. */
+export function QCWorkflowDialog({ onClose }: QCWorkflowDialogProps) {
+  const { data: settings = DEFAULT_WORKSPACE_SETTINGS } = useSettings();
+  const saveSettings = useSaveSettings();
+  const [draft, setDraft] = useState<QCWorkflow>(settings.qcWorkflow);
+  const { toast } = useToast();
+
+  const setTransition = (from: QCStatus, to: QCStatus, allowed: boolean) => {
+    setDraft(prev => ({
+      ...prev,
+      transitions: { ...prev.transitions, [from]: toggle(prev.transitions[from] ?? [], to, allowed, QC_STATUSES) },
+    }));
+  };
+
+  const setEffect = (status: QCStatus, effect: QCSideEffect, on: boolean) => {
+    setDraft(prev => ({
+      ...prev,
+      effects: {
+        ...prev.effects,
+        [status]: toggle(prev.effects[status] ?? [], effect, on, Object.keys(QC_SIDE_EFFECT_LABELS) as QCSideEffect[]),
+      },
+    }));
+  };
+
+  const handleSave = () => {
+    saveSettings.mutate({ ...settings, qcWorkflow: draft });
+    toast({
+      title: "QC Workflow Saved",
+      description: "Status changes now follow the updated workflow",
+    });
+    onClose();
+  };
+
+  return (
+    <Dialog open={true} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Workflow size={18} />
+            QC Workflow
+          </DialogTitle>
+          <DialogDescription>
+            Tick the statuses a job may move to from each status. Status changes in the job table,
+            bulk actions and imports outside these are blocked.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="overflow-x-auto border rounded-lg">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b bg-muted/50">
+                <th className="text-left py-2 px-3 font-semibold">From \ To</th>
+                {QC_STATUSES.map(status => (
+                  <th key={status} className="py-2 px-2 text-xs font-semibold text-center">{status}</th>
+                ))}
+                {(Object.keys(QC_SIDE_EFFECT_LABELS) as QCSideEffect[]).map(effect => (
+                  <th key={effect} className="py-2 px-2 text-xs font-semibold text-center border-l">
+                    On entry: {QC_SIDE_EFFECT_LABELS[effect].toLowerCase()}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {QC_STATUSES.map(from => (
+                <tr key={from} className="border-b last:border-0">
+                  <td className="py-2 px-3 font-medium whitespace-nowrap">{from}</td>
+                  {QC_STATUSES.map(to => (
+                    <td key={to} className="py-2 px-2 text-center">
+                      {from !== to && (
+                        <Checkbox
+                          checked={(draft.transitions[from] ?? []).includes(to)}
+                          onCheckedChange={(checked) => setTransition(from, to, checked === true)}
+                          aria-label={`Allow ${from} to ${to}`}
+                        />
+                      )}
+                    </td>
+                  ))}
+                  {(Object.keys(QC_SIDE_EFFECT_LABELS) as QCSideEffect[]).map(effect => (
+                    <td key={effect} className="py-2 px-2 text-center border-l">
+                      <Checkbox
+                        checked={(draft.effects[from] ?? []).includes(effect)}
+                        onCheckedChange={(checked) => setEffect(from, effect, checked === true)}
+                        aria-label={`${QC_SIDE_EFFECT_LABELS[effect]} on entering ${from}`}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Imports may make any move allowed here. They may also skip steps going forward, e.g. Not Started
+          to Accepted through In QC, but a move back such as Accepted to Re-QC must be allowed directly.
+          The QC name is stamped with your name from the header.
+        </p>
+
+        <DialogFooter className="sm:justify-between">
+          <Button variant="ghost" onClick={() => setDraft(DEFAULT_QC_WORKFLOW)}>Reset to Defaults</Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose}>Cancel</Button>
+            <Button onClick={handleSave}>Save Workflow</Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,145 @@
+import { useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { XCircle } from "lucide-react";
+import type { Job } from "@/components/JobTable";
+import { useJobs } from "@/hooks/use-workspace";
+import { ERROR_SEVERITIES, REJECT_CATEGORIES, previousRejectReasons } from "@/utils/rejectReasons";
+import type { ErrorSeverity, RejectionDetails } from "@/utils/rejectReasons";
+
+interface RejectJobsDialogProps {
+  // The jobs being rejected; mounted per rejection, so the form starts empty
+  jobIds: string[];
+  onConfirm: (details: RejectionDetails) => void;
+  onCancel: () => void;
+}
+
+// Suggestions listed under the reason field
+const MAX_SUGGESTIONS = 6;
+
+const NO_JOBS: Job[] = [];
+
+/** Records why jobs are rejected: a taxonomy category and reason, severity and an optional comment. */
+export function RejectJobsDialog({ jobIds, onConfirm, onCancel }: RejectJobsDialogProps) {
+  const { data: jobs = NO_JOBS } = useJobs();
+  const [category, setCategory] = useState('');
+  const [reason, setReason] = useState('');
+  const [severity, setSeverity] = useState<ErrorSeverity>('Major');
+  const [comment, setComment] = useState('');
+  const [showSuggestions, setShowSuggestions] = useState(false);
+
+  const usedReasons = useMemo(() => previousRejectReasons(jobs, category || undefined), [jobs, category]);
+  const suggestions = usedReasons
+    .filter(used => used.toLowerCase().includes(reason.trim().toLowerCase()) && used !== reason.trim())
+    .slice(0, MAX_SUGGESTIONS);
+
+  const canConfirm = category !== '' && reason.trim() !== '';
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (canConfirm) onConfirm({ category, reason, severity, comment });
+  };
+
+  return (
+    <Dialog open={true} onOpenChange={(open) => { if (!open) onCancel(); }}>
+      <DialogContent className="max-w-lg">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <XCircle size={18} className="text-destructive" />
+              {jobIds.length === 1 ? 'Reject Job' : `Reject ${jobIds.length} Jobs`}
+            </DialogTitle>
+            <DialogDescription>
+              {jobIds.length === 1
+                ? <span className="font-mono">{jobIds[0]}</span>
+                : 'The same reason is recorded on every selected job.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="reject-category">Reason category</Label>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger id="reject-category">
+                <SelectValue placeholder="Choose a category..." />
+              </SelectTrigger>
+              <SelectContent>
+                {REJECT_CATEGORIES.map(option => (
+                  <SelectItem key={option.key} value={option.label}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="reject-reason">Reason</Label>
+            <div className="relative">
+              <Input
+                id="reject-reason"
+                value={reason}
+                onChange={(e) => { setReason(e.target.value); setShowSuggestions(true); }}
+                onFocus={() => setShowSuggestions(true)}
+                onBlur={() => setShowSuggestions(false)}
+                placeholder="Describe the error"
+                autoComplete="off"
+              />
+              {showSuggestions && suggestions.length > 0 && (
+                <div className="absolute z-50 mt-1 w-full rounded-md border bg-popover p-1 shadow-md">
+                  {suggestions.map(suggestion => (
+                    <button
+                      key={suggestion}
+                      type="button"
+                      className="w-full truncate rounded-sm px-2 py-1.5 text-left text-sm hover:bg-accent hover:text-accent-foreground"
+                      // Keeps focus in the field, so its blur does not hide the list before the click
+                      onMouseDown={(e) => e.preventDefault()}
+                      onClick={() => { setReason(suggestion); setShowSuggestions(false); }}
+                    >
+                      {suggestion}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {usedReasons.length > 0 ? 'Suggestions are reasons already used in this workspace.' : 'No reasons recorded yet for this category.'}
+            </p>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label>Error severity</Label>
+            <RadioGroup value={severity} onValueChange={(value) => setSeverity(value as ErrorSeverity)} className="flex gap-6">
+              {ERROR_SEVERITIES.map(option => (
+                <div key={option} className="flex items-center gap-2">
+                  <RadioGroupItem value={option} id={`severity-${option}`} />
+                  <Label htmlFor={`severity-${option}`} className="font-normal">{option}</Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="reject-comment">Comment <span className="text-muted-foreground font-normal">(optional)</span></Label>
+            <Textarea
+              id="reject-comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Anything the person reworking the job should know"
+              rows={3}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onCancel}>Cancel</Button>
+            <Button type="submit" variant="destructive" disabled={!canConfirm}>
+              {jobIds.length === 1 ? 'Reject Job' : `Reject ${jobIds.length} Jobs`}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,108 @@
+import { useMemo, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { CheckCircle, AlertTriangle, FileSpreadsheet } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Job } from "./JobTable";
+import type { ReportSummary } from "@/utils/reportUtils";
+import { reconcileReport } from "@/utils/reportUtils";
+
+interface ReportReconciliationProps {
+  summary: ReportSummary;
+  jobs: Job[];
+  batchName?: string;
+}
+
+export function ReportReconciliation({ summary, jobs, batchName }: ReportReconciliationProps) {
+  const [showMismatchesOnly, setShowMismatchesOnly] = useState(false);
+
+  const items = useMemo(() => reconcileReport(summary, jobs), [summary, jobs]);
+  const mismatches = items.filter(item => !item.matches);
+  const visibleItems = showMismatchesOnly ? mismatches : items;
+
+  return (
+    <Card className="p-6 bg-gradient-card shadow-medium">
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="bg-primary/10 p-2 rounded-lg">
+              <FileSpreadsheet className="h-5 w-5 text-primary" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold">Report Reconciliation</h2>
+              <p className="text-sm text-muted-foreground">
+                {summary.reportName || batchName || 'Report sheet'}
+                {summary.reportDate && ` • Reported ${summary.reportDate}`}
+                {` • ${items.length} figures compared`}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Badge variant={mismatches.length > 0 ? 'destructive' : 'success'}>
+              {mismatches.length > 0 ? `${mismatches.length} mismatches` : 'All totals match'}
+            </Badge>
+            <Button
+              variant={showMismatchesOnly ? "default" : "outline"}
+              size="sm"
+              onClick={() => setShowMismatchesOnly(prev => !prev)}
+              className="h-8"
+            >
+              Mismatches only
+            </Button>
+          </div>
+        </div>
+
+        {mismatches.length > 0 ? (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              The spreadsheet totals disagree with the imported jobs. Review the highlighted rows before sending the report.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <Alert className="border-success bg-success/10">
+            <CheckCircle className="h-4 w-4 text-success" />
+            <AlertDescription className="text-success">
+              Every spreadsheet total matches the imported jobs.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* Comparison Table */}
+        <div className="overflow-x-auto">
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="text-left py-3 px-4 font-semibold">Figure</th>
+                <th className="text-right py-3 px-4 font-semibold">Spreadsheet</th>
+                <th className="text-right py-3 px-4 font-semibold">Computed</th>
+                <th className="text-right py-3 px-4 font-semibold">Difference</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleItems.map(item => (
+                <tr
+                  key={item.key}
+                  className={cn(
+                    "border-b border-border/50",
+                    !item.matches && "bg-destructive/10 text-destructive font-medium"
+                  )}
+                >
+                  <td className="py-2 px-4">{item.label}</td>
+                  <td className="py-2 px-4 text-right">{item.reported}</td>
+                  <td className="py-2 px-4 text-right">{item.computed}</td>
+                  <td className="py-2 px-4 text-right">
+                    {item.matches ? '—' : `${item.computed - item.reported > 0 ? '+' : ''}${item.computed - item.reported}`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </Card>
+  );
+}
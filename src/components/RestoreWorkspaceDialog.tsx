@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertTriangle, ArchiveRestore, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useReplaceWorkspace, useWorkspace } from "@/hooks/use-workspace";
+import { mergeWorkspaces, parseWorkspaceArchive } from "@/utils/workspaceArchive";
+import type { ParsedWorkspaceArchive, RestoreMode, WorkspaceArchiveSummary } from "@/utils/workspaceArchive";
+
+interface RestoreWorkspaceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SUMMARY_LABELS: [keyof Omit<WorkspaceArchiveSummary, 'exportedAt'>, string][] = [
+  ['batches', 'Batches'],
+  ['jobs', 'Jobs'],
+  ['assignedJobs', 'Assigned jobs'],
+  ['importLogEntries', 'Import log entries'],
+  ['auditEvents', 'Audit events'],
+  ['resolvedAnomalies', 'Resolved anomalies'],
+  ['customFields', 'Custom fields'],
+];
+
+export function RestoreWorkspaceDialog({ open, onOpenChange }: RestoreWorkspaceDialogProps) {
+  const workspace = useWorkspace();
+  const replaceWorkspace = useReplaceWorkspace();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<ParsedWorkspaceArchive | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const { toast } = useToast();
+
+  const reset = () => {
+    setFileName(null);
+    setParsed(null);
+    setMode('merge');
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setFileName(file.name);
+    setParsed(parseWorkspaceArchive(await file.text()));
+  };
+
+  const archive = parsed?.ok ? parsed.archive : null;
+  const merge = archive && workspace.data ? mergeWorkspaces(workspace.data, archive.workspace) : null;
+
+  const handleRestore = () => {
+    if (!archive || !merge) return;
+    const snapshot = mode === 'replace' ? archive.workspace : merge.snapshot;
+    replaceWorkspace.mutate(snapshot, {
+      onSuccess: () => toast({
+        title: "Workspace Restored",
+        description: mode === 'replace'
+          ? `Replaced the workspace with ${snapshot.batches.length} batches and ${snapshot.jobs.length} jobs`
+          : `Merged the backup; the workspace now has ${snapshot.batches.length} batches and ${snapshot.jobs.length} jobs`,
+      }),
+    });
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold flex items-center gap-2">
+            <ArchiveRestore size={20} />
+            Import Workspace
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="border-2 border-dashed rounded-lg p-6 text-center">
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={handleFileChange}
+              className="hidden"
+              id="workspace-backup-upload"
+            />
+            <label htmlFor="workspace-backup-upload" className="cursor-pointer">
+              <div className="flex flex-col items-center space-y-2">
+                <Upload className="h-10 w-10 text-muted-foreground" />
+                <p className="text-sm font-medium">{fileName || "Choose a workspace backup (.json)"}</p>
+              </div>
+            </label>
+          </div>
+
+          {parsed?.ok === false && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                <div className="font-medium">This file cannot be restored</div>
+                <ul className="list-disc pl-4 mt-1 text-xs space-y-0.5">
+                  {parsed.errors.map((error, index) => <li key={index}>{error}</li>)}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {parsed?.ok && (
+            <>
+              <div className="space-y-2">
+                <div className="text-sm font-medium">
+                  Backup from {new Date(parsed.summary.exportedAt).toLocaleString()}
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  {SUMMARY_LABELS.map(([key, label]) => (
+                    <div key={key} className="border rounded-lg px-3 py-2">
+                      <div className="text-lg font-semibold">{parsed.summary[key]}</div>
+                      <div className="text-xs text-muted-foreground">{label}</div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {parsed.warnings.length > 0 && (
+                <Alert>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    <ul className="list-disc pl-4 text-xs space-y-0.5">
+                      {parsed.warnings.map((warning, index) => <li key={index}>{warning}</li>)}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className="space-y-3">
+                <Label className="text-sm font-medium">Restore Mode</Label>
+                <RadioGroup value={mode} onValueChange={(value) => setMode(value as RestoreMode)}>
+                  <div className="flex items-start space-x-2">
+                    <RadioGroupItem value="merge" id="restore-merge" className="mt-0.5" />
+                    <Label htmlFor="restore-merge" className="text-sm">
+                      Merge into this workspace
+                      <span className="block text-xs text-muted-foreground font-normal">
+                        Jobs match by Job ID and keep the newer revision; batches match by batch ID
+                      </span>
+                    </Label>
+                  </div>
+                  <div className="flex items-start space-x-2">
+                    <RadioGroupItem value="replace" id="restore-replace" className="mt-0.5" />
+                    <Label htmlFor="restore-replace" className="text-sm">
+                      Replace this workspace
+                      <span className="block text-xs text-muted-foreground font-normal">
+                        Everything currently stored is discarded
+                      </span>
+                    </Label>
+                  </div>
+                </RadioGroup>
+
+                {mode === 'merge' && merge && (
+                  <div className="flex flex-wrap gap-2">
+                    <Badge variant="success" className="text-xs">New jobs: {merge.preview.newJobs}</Badge>
+                    <Badge variant="secondary" className="text-xs">Updated jobs: {merge.preview.updatedJobs}</Badge>
+                    <Badge variant="outline" className="text-xs">Newer here, kept: {merge.preview.keptJobs}</Badge>
+                    <Badge variant="success" className="text-xs">New batches: {merge.preview.newBatches}</Badge>
+                    <Badge variant="warning" className="text-xs">Replaced batches: {merge.preview.replacedBatches}</Badge>
+                  </div>
+                )}
+                {mode === 'replace' && workspace.data && (
+                  <p className="text-xs text-destructive">
+                    {workspace.data.batches.length} batches and {workspace.data.jobs.length} jobs will be removed
+                  </p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={handleRestore}
+            disabled={!merge}
+            variant={mode === 'replace' ? 'destructive' : 'default'}
+          >
+            {mode === 'replace' ? 'Replace Workspace' : 'Merge Backup'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,55 @@
+import { Badge } from "@/components/ui/badge";
+import { formatDuration, reworkTurnaroundHours } from "@/utils/reworkCycles";
+import type { ReworkCycle } from "@/utils/reworkCycles";
+
+interface ReworkCycleListProps {
+  cycles: ReworkCycle[];
+}
+
+const resultVariants = {
+  'Accepted': 'success',
+  'Rejected': 'destructive',
+  'Output Not Found': 'warning',
+} as const;
+
+const timeOf = (at?: string) => at ? new Date(at).toLocaleString() : '—';
+
+/** A job's trips round the rework loop, oldest first. */
+export function ReworkCycleList({ cycles }: ReworkCycleListProps) {
+  return (
+    <div className="border rounded-lg divide-y">
+      {cycles.map(cycle => (
+        <div key={cycle.cycle} className="space-y-1.5 px-3 py-2.5">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-medium">Cycle {cycle.cycle}</span>
+            {cycle.result ? (
+              <Badge variant={resultVariants[cycle.result]} className="text-xs">Re-QC: {cycle.result}</Badge>
+            ) : (
+              <Badge variant="outline" className="text-xs">
+                {cycle.reworkFinishedAt ? 'Awaiting re-QC' : cycle.reworkStartedAt ? 'In rework' : 'Awaiting rework'}
+              </Badge>
+            )}
+            <span className="text-xs text-muted-foreground ml-auto">
+              Turnaround {formatDuration(reworkTurnaroundHours(cycle))}
+            </span>
+          </div>
+          <div className="text-sm">
+            {cycle.category && <span className="text-muted-foreground">{cycle.category}: </span>}
+            {cycle.rejectReason || <em className="text-muted-foreground">No reason recorded</em>}
+            {cycle.severity && <Badge variant="outline" className="text-xs ml-2">{cycle.severity}</Badge>}
+          </div>
+          <div className="grid grid-cols-[8rem_1fr] gap-x-2 gap-y-0.5 text-xs">
+            <span className="text-muted-foreground">Rejected</span>
+            <span>{timeOf(cycle.rejectedAt)}{cycle.rejectedBy && ` by ${cycle.rejectedBy}`}</span>
+            <span className="text-muted-foreground">Rework started</span>
+            <span>{timeOf(cycle.reworkStartedAt)}</span>
+            <span className="text-muted-foreground">Rework finished</span>
+            <span>{timeOf(cycle.reworkFinishedAt)}</span>
+            <span className="text-muted-foreground">Re-QC result</span>
+            <span>{cycle.result ? `${cycle.result}, ${timeOf(cycle.resultAt)}${cycle.resultBy ? ` by ${cycle.resultBy}` : ''}` : '—'}</span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
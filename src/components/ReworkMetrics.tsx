@@ -0,0 +1,105 @@
+import { useMemo } from "react";
+import { Card } from "@/components/ui/card";
+import { Repeat } from "lucide-react";
+import type { Job } from "@/components/JobTable";
+import { useJobs } from "@/hooks/use-workspace";
+import { firstReviewer, formatDuration, reworkStats, reworkStatsBy } from "@/utils/reworkCycles";
+import type { ReworkStats } from "@/utils/reworkCycles";
+
+interface ReworkMetricsProps {
+  // Limits the figures to one batch's jobs
+  batchId?: string;
+}
+
+const NO_JOBS: Job[] = [];
+
+const percent = (value: number | null) => value === null ? '—' : `${value.toFixed(1)}%`;
+const decimal = (value: number | null) => value === null ? '—' : value.toFixed(2);
+
+function StatsTable({ title, keyLabel, rows }: { title: string; keyLabel: string; rows: ReworkStats[] }) {
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold">{title}</h3>
+      {rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No jobs have been through QC yet.</p>
+      ) : (
+        <div className="overflow-x-auto border rounded-lg">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b bg-muted/50">
+                <th className="text-left py-2 px-3 font-semibold">{keyLabel}</th>
+                <th className="text-right py-2 px-3 font-semibold">QC'd Jobs</th>
+                <th className="text-right py-2 px-3 font-semibold">First-Pass Yield</th>
+                <th className="text-right py-2 px-3 font-semibold">Avg. Cycles to Acceptance</th>
+                <th className="text-right py-2 px-3 font-semibold">Rework Cycles</th>
+                <th className="text-right py-2 px-3 font-semibold">Open</th>
+                <th className="text-right py-2 px-3 font-semibold">Avg. Turnaround</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.key} className="border-b last:border-0">
+                  <td className="py-2 px-3 font-medium">{row.key}</td>
+                  <td className="py-2 px-3 text-right tabular-nums">{row.qcedJobs}</td>
+                  <td className="py-2 px-3 text-right tabular-nums">{percent(row.firstPassYield)}</td>
+                  <td className="py-2 px-3 text-right tabular-nums">{decimal(row.avgCyclesToAcceptance)}</td>
+                  <td className="py-2 px-3 text-right tabular-nums">{row.cycles}</td>
+                  <td className="py-2 px-3 text-right tabular-nums">{row.openCycles}</td>
+                  <td className="py-2 px-3 text-right tabular-nums">{formatDuration(row.avgTurnaroundHours)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** First-pass yield, cycles until acceptance and rework turnaround, overall, per reviewer and per batch. */
+export function ReworkMetrics({ batchId }: ReworkMetricsProps) {
+  const { data: jobs = NO_JOBS } = useJobs();
+
+  const scopedJobs = useMemo(() => batchId ? jobs.filter(job => job.batchId === batchId) : jobs, [jobs, batchId]);
+  const overall = useMemo(() => reworkStats(scopedJobs), [scopedJobs]);
+  const byReviewer = useMemo(() => reworkStatsBy(scopedJobs, firstReviewer), [scopedJobs]);
+  const byBatch = useMemo(() => reworkStatsBy(scopedJobs, job => job.batchId || 'No batch'), [scopedJobs]);
+
+  const tiles = [
+    { label: 'First-Pass Yield', value: percent(overall.firstPassYield), hint: `${overall.firstPassJobs} of ${overall.qcedJobs} QC'd jobs accepted without rework` },
+    { label: 'Avg. Cycles to Acceptance', value: decimal(overall.avgCyclesToAcceptance), hint: `Over ${overall.acceptedJobs} accepted jobs` },
+    { label: 'Avg. Rework Turnaround', value: formatDuration(overall.avgTurnaroundHours), hint: 'From rejection until back in re-QC' },
+    { label: 'Open Rework Cycles', value: String(overall.openCycles), hint: `${overall.cycles} cycles recorded` },
+  ];
+
+  return (
+    <Card className="p-6 bg-gradient-card shadow-medium">
+      <div className="space-y-6">
+        <div className="flex items-center gap-3">
+          <div className="bg-primary/10 p-2 rounded-lg">
+            <Repeat className="h-5 w-5 text-primary" />
+          </div>
+          <div>
+            <h2 className="text-xl font-semibold">Rework Loops</h2>
+            <p className="text-sm text-muted-foreground">
+              Rejections, rework and re-QC results{batchId && ` in ${batchId}`}
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+          {tiles.map(tile => (
+            <div key={tile.label} className="p-3 border rounded-lg">
+              <p className="text-sm font-medium">{tile.label}</p>
+              <p className="text-2xl font-semibold tabular-nums">{tile.value}</p>
+              <p className="text-xs text-muted-foreground">{tile.hint}</p>
+            </div>
+          ))}
+        </div>
+
+        <StatsTable title="By QC Reviewer" keyLabel="Reviewer" rows={byReviewer} />
+        {!batchId && <StatsTable title="By Batch" keyLabel="Batch" rows={byBatch} />}
+      </div>
+    </Card>
+  );
+}
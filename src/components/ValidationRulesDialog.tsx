@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ShieldCheck } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useSaveSettings, useSettings } from "@/hooks/use-workspace";
+import { VALIDATION_RULES, resolveRuleSettings } from "@/utils/validationRules";
+import type { BatchRuleSettings, RuleSetting, ValidationRule } from "@/utils/validationRules";
+import { DEFAULT_WORKSPACE_SETTINGS } from "@/utils/workspaceRepository";
+
+interface ValidationRulesDialogProps {
+  // Mounted per opening, so the draft starts from the saved settings
+  onClose: () => void;
+}
+
+const BATCH_TYPES = [
+  { value: 'Fresh', label: 'Fresh Data' },
+  { value: 'QCed', label: "QC'd Data" },
+] as const;
+
+const RULE_SETTING_LABELS: Record<RuleSetting, string> = {
+  error: 'Error (rejects the row)',
+  warning: 'Warning',
+  info: 'Info',
+  off: 'Off',
+};
+
+/** Sets how strictly each import validation rule applies, per batch type. */
+export function ValidationRulesDialog({ onClose }: ValidationRulesDialogProps) {
+  const { data: settings = DEFAULT_WORKSPACE_SETTINGS } = useSettings();
+  const saveSettings = useSaveSettings();
+  const [draft, setDraft] = useState<BatchRuleSettings>(settings.ruleSettings);
+  const { toast } = useToast();
+
+  // Only settings that differ from the rule's default are stored
+  const setRule = (rule: ValidationRule, batchType: keyof BatchRuleSettings, setting: RuleSetting) => {
+    setDraft(prev => {
+      const { [rule.id]: _previous, ...others } = prev[batchType];
+      return {
+        ...prev,
+        [batchType]: setting === rule.defaults[batchType] ? others : { ...others, [rule.id]: setting },
+      };
+    });
+  };
+
+  const handleSave = () => {
+    saveSettings.mutate({ ...settings, ruleSettings: draft });
+    toast({
+      title: "Validation Rules Saved",
+      description: "New imports are checked with the updated rules",
+    });
+    onClose();
+  };
+
+  const resolved = {
+    Fresh: resolveRuleSettings('Fresh', draft.Fresh),
+    QCed: resolveRuleSettings('QCed', draft.QCed),
+  };
+
+  return (
+    <Dialog open={true} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck size={18} />
+            Validation Rules
+          </DialogTitle>
+          <DialogDescription>
+            Choose how each import check is reported. Rows with an error are left out of the import;
+            warnings and info are listed in the preview but the rows are imported.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="overflow-x-auto border rounded-lg">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b bg-muted/50">
+                <th className="text-left py-2 px-3 font-semibold">Rule</th>
+                {BATCH_TYPES.map(type => (
+                  <th key={type.value} className="text-left py-2 px-3 font-semibold w-52">{type.label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {VALIDATION_RULES.map(rule => (
+                <tr key={rule.id} className="border-b last:border-0 align-top">
+                  <td className="py-2 px-3">
+                    <div className="flex items-center gap-2 font-medium">
+                      {rule.label}
+                      {rule.scope === 'file' && <Badge variant="outline" className="text-xs">Whole file</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">{rule.description}</p>
+                  </td>
+                  {BATCH_TYPES.map(type => (
+                    <td key={type.value} className="py-2 px-3">
+                      <Select
+                        value={resolved[type.value][rule.id]}
+                        onValueChange={(value) => setRule(rule, type.value, value as RuleSetting)}
+                      >
+                        <SelectTrigger className="h-8" aria-label={`${rule.label} for ${type.label}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(RULE_SETTING_LABELS) as RuleSetting[]).map(setting => (
+                            <SelectItem key={setting} value={setting}>
+                              {RULE_SETTING_LABELS[setting]}{setting === rule.defaults[type.value] && ' (default)'}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          An error on a whole-file rule, such as an unmapped required column, rejects every row of the file.
+        </p>
+
+        <DialogFooter className="sm:justify-between">
+          <Button variant="ghost" onClick={() => setDraft(DEFAULT_WORKSPACE_SETTINGS.ruleSettings)}>Reset to Defaults</Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose}>Cancel</Button>
+            <Button onClick={handleSave}>Save Rules</Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,44 @@
+import { useCallback, useSyncExternalStore } from "react";
+
+const CURRENT_USER_STORAGE_KEY = 'qc-dashboard-current-user';
+
+// Recorded as the actor until someone enters their name
+export const UNKNOWN_USER = 'Unknown user';
+
+const listeners = new Set<() => void>();
+
+function readCurrentUser(): string {
+  try {
+    return localStorage.getItem(CURRENT_USER_STORAGE_KEY) || '';
+  } catch {
+    return '';
+  }
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  // Other tabs of this browser share the name
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === CURRENT_USER_STORAGE_KEY) listener();
+  };
+  window.addEventListener('storage', handleStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', handleStorage);
+  };
+}
+
+/**
+ * The name this browser records as the actor of its changes. There is no
+ * sign-in, so people enter it themselves; it is kept in localStorage.
+ */
+export function useCurrentUser() {
+  const name = useSyncExternalStore(subscribe, readCurrentUser);
+
+  const setName = useCallback((next: string) => {
+    localStorage.setItem(CURRENT_USER_STORAGE_KEY, next.trim());
+    listeners.forEach(listener => listener());
+  }, []);
+
+  return { name, actor: name || UNKNOWN_USER, setName };
+}
@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type {
+  ImportPhase,
+  ImportWorkerMessage,
+  ImportWorkerRequest,
+  ImportWorkerResult,
+} from "@/workers/importWorker";
+
+export interface ImportProgress {
+  phase: ImportPhase;
+  loaded: number;
+  total: number;
+}
+
+// Share of the progress bar given to each phase
+const PHASE_RANGES: Record<ImportPhase, [number, number]> = {
+  reading: [0, 60],
+  validating: [60, 95],
+  merging: [95, 100],
+};
+
+export function importProgressPercent(progress: ImportProgress): number {
+  const [start, end] = PHASE_RANGES[progress.phase];
+  const ratio = progress.total > 0 ? Math.min(1, progress.loaded / progress.total) : 0;
+  return Math.round(start + (end - start) * ratio);
+}
+
+/**
+ * Runs CSV imports in a dedicated worker. Starting a new run or cancelling
+ * terminates the previous worker; its pending promise resolves to null.
+ */
+export function useImportWorker() {
+  const workerRef = useRef<Worker | null>(null);
+  const settleRef = useRef<((result: ImportWorkerResult | null) => void) | null>(null);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+
+  const stop = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    settleRef.current?.(null);
+    settleRef.current = null;
+  }, []);
+
+  const cancel = useCallback(() => {
+    stop();
+    setProgress(null);
+  }, [stop]);
+
+  const run = useCallback((request: ImportWorkerRequest) => {
+    stop();
+
+    return new Promise<ImportWorkerResult | null>((resolve, reject) => {
+      const worker = new Worker(new URL("../workers/importWorker.ts", import.meta.url), { type: "module" });
+      workerRef.current = worker;
+      settleRef.current = resolve;
+      setProgress({ phase: 'reading', loaded: 0, total: request.file.size });
+
+      const finish = () => {
+        worker.terminate();
+        if (workerRef.current === worker) {
+          workerRef.current = null;
+          settleRef.current = null;
+          setProgress(null);
+        }
+      };
+
+      worker.onmessage = (event: MessageEvent<ImportWorkerMessage>) => {
+        const message = event.data;
+        switch (message.type) {
+          case 'progress':
+            setProgress({ phase: message.phase, loaded: message.loaded, total: message.total });
+            break;
+          case 'done':
+            finish();
+            resolve(message.result);
+            break;
+          case 'error':
+            finish();
+            reject(new Error(message.message));
+            break;
+        }
+      };
+
+      worker.onerror = (event) => {
+        finish();
+        reject(new Error(event.message || 'Import worker failed'));
+      };
+
+      worker.postMessage(request);
+    });
+  }, [stop]);
+
+  useEffect(() => stop, [stop]);
+
+  return { run, cancel, progress, running: progress !== null };
+}
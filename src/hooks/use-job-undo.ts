@@ -0,0 +1,23 @@
+import { createContext, useContext } from "react";
+import type { Job } from "@/components/JobTable";
+import type { JobEditStep } from "@/utils/jobEditHistory";
+
+export interface JobUndo {
+  // Labels of the steps the next undo and redo would apply
+  undoLabel?: string;
+  redoLabel?: string;
+  // Call after writing an edit; returns the step, or null when nothing changed
+  record: (label: string, before: Job[], after: Job[]) => JobEditStep | null;
+  // Undoes the latest step, or the given one wherever it is in the stack
+  undo: (stepId?: string) => void;
+  redo: () => void;
+}
+
+// Provided by JobUndoProvider
+export const JobUndoContext = createContext<JobUndo | null>(null);
+
+export function useJobUndo(): JobUndo {
+  const value = useContext(JobUndoContext);
+  if (!value) throw new Error('useJobUndo must be used inside a JobUndoProvider');
+  return value;
+}
@@ -0,0 +1,191 @@
+import { createContext, useCallback, useContext, useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "@/hooks/use-toast";
+import type { Job } from "@/components/JobTable";
+import { createHttpRepository } from "@/utils/httpRepository";
+import { createIndexedDBRepository } from "@/utils/workspaceStore";
+import { applyWorkspaceChange, undoWorkspaceChange, workspaceChannel } from "@/utils/workspaceSync";
+import type { WorkspaceChange } from "@/utils/workspaceSync";
+import { appendAuditEvents } from "@/utils/auditLog";
+import type { AuditEvent } from "@/utils/auditLog";
+import {
+  applyBatchImport,
+  applyBatchRevert,
+  applyJobAssignment,
+  upsertJobs,
+} from "@/utils/workspaceRepository";
+import type {
+  BatchImport,
+  BatchRevert,
+  JobAssignment,
+  WorkspaceRepository,
+  WorkspaceSettings,
+  WorkspaceSnapshot,
+} from "@/utils/workspaceRepository";
+
+export const WorkspaceRepositoryContext = createContext<WorkspaceRepository | null>(null);
+
+/** The workspace server when VITE_WORKSPACE_API_URL is set, this browser's IndexedDB otherwise. */
+export function createWorkspaceRepository(): WorkspaceRepository {
+  const apiUrl = import.meta.env.VITE_WORKSPACE_API_URL;
+  return apiUrl ? createHttpRepository(apiUrl) : createIndexedDBRepository();
+}
+
+export const WORKSPACE_QUERY_KEY = ['workspace'] as const;
+
+function useRepository(): WorkspaceRepository {
+  const repository = useContext(WorkspaceRepositoryContext);
+  if (!repository) throw new Error('Workspace hooks must be used inside a WorkspaceRepositoryContext provider');
+  return repository;
+}
+
+/** The whole workspace, loaded once and kept current by the mutations below. */
+export function useWorkspace<T = WorkspaceSnapshot>(select?: (snapshot: WorkspaceSnapshot) => T) {
+  const repository = useRepository();
+  return useQuery({
+    queryKey: WORKSPACE_QUERY_KEY,
+    queryFn: () => repository.loadWorkspace(),
+    select,
+    // Every write updates the cache, this tab's through the mutations below and
+    // other tabs' through useWorkspaceSync
+    staleTime: Infinity,
+  });
+}
+
+const selectJobs = (snapshot: WorkspaceSnapshot) => snapshot.jobs;
+const selectBatches = (snapshot: WorkspaceSnapshot) => snapshot.batches;
+const selectImportLog = (snapshot: WorkspaceSnapshot) => snapshot.importLog;
+const selectSettings = (snapshot: WorkspaceSnapshot) => snapshot.settings;
+const selectAuditLog = (snapshot: WorkspaceSnapshot) => snapshot.auditLog;
+
+export const useJobs = () => useWorkspace(selectJobs);
+export const useBatches = () => useWorkspace(selectBatches);
+export const useImportLog = () => useWorkspace(selectImportLog);
+export const useSettings = () => useWorkspace(selectSettings);
+export const useAuditLog = () => useWorkspace(selectAuditLog);
+
+/**
+ * Reads the cached workspace as it is at the time of the call, with optimistic
+ * changes that have not rendered yet. For handlers that apply several changes in a row.
+ */
+export function useLatestWorkspace(): () => WorkspaceSnapshot | undefined {
+  const queryClient = useQueryClient();
+  return useCallback(() => queryClient.getQueryData<WorkspaceSnapshot>(WORKSPACE_QUERY_KEY), [queryClient]);
+}
+
+/** Applies changes stored by other tabs of this workspace as they arrive. Mount once per page. */
+export function useWorkspaceSync() {
+  const repository = useRepository();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const channel = workspaceChannel(repository.id);
+    if (!channel) return;
+
+    const handleMessage = (event: MessageEvent<WorkspaceChange>) => {
+      queryClient.setQueryData<WorkspaceSnapshot>(
+        WORKSPACE_QUERY_KEY,
+        snapshot => snapshot && applyWorkspaceChange(snapshot, event.data)
+      );
+    };
+    channel.addEventListener('message', handleMessage);
+    return () => channel.removeEventListener('message', handleMessage);
+  }, [repository, queryClient]);
+}
+
+/**
+ * Applies a change to the cached workspace right away and stores it in the
+ * background. A stored change is then sent to the other tabs; a failed write
+ * takes just that change back out of the cache, reloads the workspace and
+ * reports the error.
+ */
+function useWorkspaceMutation<TVariables, TResult>(
+  store: (repository: WorkspaceRepository, variables: TVariables) => Promise<TResult>,
+  apply: (snapshot: WorkspaceSnapshot, variables: TVariables) => WorkspaceSnapshot,
+  describe: (variables: TVariables, result: TResult) => WorkspaceChange
+) {
+  const repository = useRepository();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (variables: TVariables) => store(repository, variables),
+    onMutate: async (variables) => {
+      await queryClient.cancelQueries({ queryKey: WORKSPACE_QUERY_KEY });
+      const previous = queryClient.getQueryData<WorkspaceSnapshot>(WORKSPACE_QUERY_KEY);
+      const optimistic = previous && apply(previous, variables);
+      if (optimistic) queryClient.setQueryData(WORKSPACE_QUERY_KEY, optimistic);
+      return { previous, optimistic };
+    },
+    onSuccess: (result, variables) => {
+      const change = describe(variables, result);
+      // Jobs come back as stored, which is a newer revision when another writer got there first
+      if (change.type === 'jobs') {
+        queryClient.setQueryData<WorkspaceSnapshot>(WORKSPACE_QUERY_KEY, current => current && applyWorkspaceChange(current, change));
+      }
+      workspaceChannel(repository.id)?.postMessage(change);
+    },
+    onError: (error, _variables, context) => {
+      // Other mutations may have applied on top in the meantime, so a snapshot restore would lose them
+      if (context?.previous && context.optimistic) {
+        const { previous, optimistic } = context;
+        queryClient.setQueryData<WorkspaceSnapshot>(
+          WORKSPACE_QUERY_KEY,
+          current => current && undoWorkspaceChange(current, previous, optimistic)
+        );
+      }
+      // The store may have kept part of the change, so only a failure reloads the workspace
+      queryClient.invalidateQueries({ queryKey: WORKSPACE_QUERY_KEY });
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "The change could not be saved",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+// Pass jobs through stampJob first, so other tabs can tell the edit is newer
+export const useUpdateJobs = () => useWorkspaceMutation(
+  (repository, { jobs, audit }: { jobs: Job[]; audit: AuditEvent[] }) => repository.updateJobs(jobs, audit),
+  (snapshot, { jobs, audit }) => ({
+    ...snapshot,
+    jobs: upsertJobs(snapshot.jobs, jobs),
+    auditLog: appendAuditEvents(snapshot.auditLog, audit),
+  }),
+  ({ audit }, stored) => ({ type: 'jobs', jobs: stored, audit })
+);
+
+export const useAssignJobs = () => useWorkspaceMutation(
+  (repository, { jobIds, assignment, audit }: { jobIds: string[]; assignment: JobAssignment; audit: AuditEvent[] }) =>
+    repository.assignJobs(jobIds, assignment, audit),
+  (snapshot, { jobIds, assignment, audit }) => ({
+    ...snapshot,
+    jobs: applyJobAssignment(snapshot.jobs, jobIds, assignment),
+    auditLog: appendAuditEvents(snapshot.auditLog, audit),
+  }),
+  ({ audit }, updated) => ({ type: 'jobs', jobs: updated, audit })
+);
+
+export const useImportBatch = () => useWorkspaceMutation(
+  (repository, request: BatchImport) => repository.importBatch(request),
+  (snapshot, request) => applyBatchImport(snapshot, request),
+  request => ({ type: 'batch-import', request })
+);
+
+export const useRevertBatch = () => useWorkspaceMutation(
+  (repository, request: BatchRevert) => repository.revertBatch(request),
+  (snapshot, request) => applyBatchRevert(snapshot, request),
+  request => ({ type: 'batch-revert', request })
+);
+
+export const useReplaceWorkspace = () => useWorkspaceMutation(
+  (repository, snapshot: WorkspaceSnapshot) => repository.replaceWorkspace(snapshot),
+  (_previous, snapshot) => snapshot,
+  snapshot => ({ type: 'workspace', snapshot })
+);
+
+export const useSaveSettings = () => useWorkspaceMutation(
+  (repository, settings: WorkspaceSettings) => repository.saveSettings(settings),
+  (snapshot, settings) => ({ ...snapshot, settings }),
+  settings => ({ type: 'settings', settings })
+);
@@ -1,16 +1,54 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { MetricsCard } from '@/components/MetricsCard';
 import { JobTable, Job } from '@/components/JobTable';
 import { AISidebar } from '@/components/AISidebar';
 import { CSVImportModal, BatchInfo } from '@/components/CSVImportModal';
+import type { ImportFileRequest } from '@/components/CSVImportModal';
 import { BatchManager } from '@/components/BatchManager';
 import { AnomalyDetection } from '@/components/AnomalyDetection';
+import { ReportReconciliation } from '@/components/ReportReconciliation';
+import { ImportPreviewDialog } from '@/components/ImportPreviewDialog';
+import { ExportDialog } from '@/components/ExportDialog';
+import { ImportSummaryDialog } from '@/components/ImportSummaryDialog';
+import { RestoreWorkspaceDialog } from '@/components/RestoreWorkspaceDialog';
+import { QCWorkflowDialog } from '@/components/QCWorkflowDialog';
+import { ValidationRulesDialog } from '@/components/ValidationRulesDialog';
+import { AuditLog } from '@/components/AuditLog';
+import { ReworkMetrics } from '@/components/ReworkMetrics';
+import { CurrentUserButton } from '@/components/CurrentUserButton';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { parseCSVToJobs, jobsToCSV, downloadCSV } from '@/utils/csvUtils';
-import { generateBatchId, parseCSVToBatch, batchJobsToCSV } from '@/utils/batchUtils';
+import { ToastAction } from '@/components/ui/toast';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { parseCSVToJobs } from '@/utils/csvUtils';
+import { generateBatchId, combineBatchJobs } from '@/utils/batchUtils';
+import type { ImportBatchMode } from '@/utils/batchUtils';
+import { parseReportSummary } from '@/utils/reportUtils';
+import { batchInfoSchema } from '@/utils/schemas';
+import { applyImportDiff, diffImport, diffFreshImport, DEFAULT_MERGE_OPTIONS } from '@/utils/mergeUtils';
+import type { ImportDiff } from '@/utils/mergeUtils';
+import { findRevertBlockers } from '@/utils/importTransactions';
 import { useToast } from '@/hooks/use-toast';
+import { useImportWorker } from '@/hooks/use-import-worker';
+import { useCurrentUser } from '@/hooks/use-current-user';
+import { useImportBatch, useLatestWorkspace, useRevertBatch, useWorkspace, useWorkspaceSync } from '@/hooks/use-workspace';
+import { createBatchImport, createBatchRevert, DEFAULT_WORKSPACE_SETTINGS, isWorkspaceEmpty } from '@/utils/workspaceRepository';
+import type { WorkspaceSnapshot } from '@/utils/workspaceRepository';
+import type { ImportWorkerResult } from '@/workers/importWorker';
+import { mergeCustomFields } from '@/utils/customFields';
+import { backfillReworkCycles } from '@/utils/reworkCycles';
+import type { CustomFieldDefinition } from '@/utils/customFields';
+import { buildImportResult, countBatchJobs, createFileSource, describeOutcomes, hasSkippedRows, resultRows } from '@/utils/importResults';
+import type { ImportFileSource, ImportResult } from '@/utils/importResults';
+import { createWorkspaceArchive, workspaceArchiveFileName } from '@/utils/workspaceArchive';
+import { downloadBlob } from '@/utils/exportUtils';
 import { 
   BarChart3, 
   Users, 
@@ -20,54 +58,114 @@ import {
   TrendingUp,
   Brain,
   Zap,
-  Plus
+  Plus,
+  Database,
+  ArchiveRestore,
+  Download,
+  HardDrive,
+  Workflow,
+  ShieldCheck
 } from 'lucide-react';
 
+interface PendingImport {
+  batchInfo: BatchInfo;
+  jobs: Job[];
+  // Computed by the review dialog when missing or when the workspace has changed since
+  diff?: ImportDiff;
+  // The jobs the diff was computed against
+  diffBase?: Job[];
+  // Files the jobs came from, for the post-import summary
+  sources: ImportFileSource[];
+  warningCount: number;
+  customFields: CustomFieldDefinition[];
+}
+
+// Shown until the saved workspace has loaded
+const EMPTY_WORKSPACE: WorkspaceSnapshot = {
+  jobs: [],
+  batches: [],
+  importLog: [],
+  auditLog: [],
+  settings: DEFAULT_WORKSPACE_SETTINGS,
+};
+
 const Index = () => {
-  const [jobs, setJobs] = useState<Job[]>([]);
-  const [batches, setBatches] = useState<BatchInfo[]>([]);
-  const [loading, setLoading] = useState(true);
+  const workspace = useWorkspace();
+  useWorkspaceSync();
+  const { jobs, batches, importLog, settings } = workspace.data ?? EMPTY_WORKSPACE;
+  // Workspace registry of custom fields kept from unmapped import columns
+  const customFields = settings.customFields;
+  const importBatch = useImportBatch();
+  const latestWorkspace = useLatestWorkspace();
+  const revertBatch = useRevertBatch();
+  const [loadingDemo, setLoadingDemo] = useState(false);
   const [currentView, setCurrentView] = useState('overview');
   const [selectedBatch, setSelectedBatch] = useState<string | undefined>();
   const [showImportModal, setShowImportModal] = useState(false);
+  // QC imports wait here for review, first in line is shown
+  const [pendingImports, setPendingImports] = useState<PendingImport[]>([]);
+  const [importStep, setImportStep] = useState<{ current: number; total: number; fileName: string } | null>(null);
+  // Outcomes of the latest import, including batches confirmed from its review queue
+  const [importResults, setImportResults] = useState<ImportResult[]>([]);
+  const [showImportSummary, setShowImportSummary] = useState(false);
+  const [showRestoreWorkspace, setShowRestoreWorkspace] = useState(false);
+  const [showQCWorkflow, setShowQCWorkflow] = useState(false);
+  const [showValidationRules, setShowValidationRules] = useState(false);
+  const [exportRequest, setExportRequest] = useState<{
+    title: string;
+    fileBaseName: string;
+    jobs: Job[];
+    filteredJobs?: Job[];
+  } | null>(null);
   const { toast } = useToast();
+  const importWorker = useImportWorker();
+  const { actor } = useCurrentUser();
 
   const qcResources = ['Virat', 'Mahi', 'Rohit', 'Dhoni', 'Kohli'];
 
-  useEffect(() => {
-    const loadInitialData = async () => {
-      try {
-        const response = await fetch('/src/data/jobs.csv');
-        const csvContent = await response.text();
-        const parsedJobs = parseCSVToJobs(csvContent);
-        
-        const defaultBatch: BatchInfo = {
-          id: 'Batch-1',
-          name: 'Initial Data',
-          type: 'QCed',
-          uploadDate: new Date().toISOString(),
-          uploadedBy: 'System',
-          jobCount: parsedJobs.length
-        };
-        
-        const jobsWithBatch = parsedJobs.map(job => ({ ...job, batchId: 'Batch-1' }));
-        
-        setJobs(jobsWithBatch);
-        setBatches([defaultBatch]);
-      } catch (error) {
-        console.error('Failed to load initial data:', error);
-        toast({
-          title: "Error",
-          description: "Failed to load job data",
-          variant: "destructive",
-        });
-      } finally {
-        setLoading(false);
-      }
-    };
+  const handleExportWorkspace = () => {
+    if (!workspace.data) return;
+    const archive = createWorkspaceArchive(workspace.data);
+    const blob = new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, workspaceArchiveFileName(archive.exportedAt));
+    toast({
+      title: "Workspace Exported",
+      description: `Backed up ${batches.length} batches and ${jobs.length} jobs`,
+    });
+  };
+
+  // The bundled sample is offered only while the workspace is empty
+  const handleLoadDemoData = async () => {
+    setLoadingDemo(true);
+    try {
+      const response = await fetch('/src/data/jobs.csv');
+      const csvContent = await response.text();
+      const id = generateBatchId(batches);
+      const demoJobs = parseCSVToJobs(csvContent).map(job => backfillReworkCycles({ ...job, batchId: id }));
 
-    loadInitialData();
-  }, [toast]);
+      const demoBatch: BatchInfo = {
+        id,
+        name: 'Demo Data',
+        type: 'QCed',
+        uploadDate: new Date().toISOString(),
+        uploadedBy: 'System',
+        jobCount: demoJobs.length,
+        reportSummary: parseReportSummary(csvContent) ?? undefined
+      };
+
+      // Stored like an import so the demo can be removed with Revert
+      await importBatch.mutateAsync(createBatchImport(demoBatch, [], demoJobs, customFields));
+    } catch (error) {
+      console.error('Failed to load demo data:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load demo data",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingDemo(false);
+    }
+  };
 
   const totalJobs = jobs.length;
   const acceptedJobs = jobs.filter(job => job.qcStatus === 'Accepted').length;
@@ -76,88 +174,307 @@ const Index = () => {
   const acceptanceRate = totalJobs > 0 ? ((acceptedJobs / totalJobs) * 100).toFixed(1) : '0';
   const rejectionRate = totalJobs > 0 ? ((rejectedJobs / totalJobs) * 100).toFixed(1) : '0';
 
-  const handleJobUpdate = (updatedJob: Job) => {
-    setJobs(prev => prev.map(job => 
-      job.jid === updatedJob.jid ? updatedJob : job
-    ));
+  // Status updates are checked against the workspace's QC workflow
+  const mergeOptions = { ...DEFAULT_MERGE_OPTIONS, workflow: settings.qcWorkflow };
+
+  // Runs one file through the worker; null means the user cancelled, undefined that it failed
+  const runImportFile = async (request: ImportFileRequest, batchInfo: BatchInfo, existingJobs: Job[]) => {
+    try {
+      const existingBatchIds = (latestWorkspace()?.batches ?? batches).map(batch => batch.id);
+      return await importWorker.run({ file: request.file, batchInfo, options: { ...request.options, existingBatchIds }, existingJobs, mergeOptions });
+    } catch {
+      toast({
+        title: "Import Failed",
+        description: `Failed to parse ${request.file.name}`,
+        variant: "destructive",
+      });
+      return undefined;
+    }
+  };
+
+  const checkBatchInfo = (batchInfo: BatchInfo) => {
+    const batchCheck = batchInfoSchema.safeParse(batchInfo);
+    if (batchCheck.success) return true;
     toast({
-      title: "Job Updated",
-      description: `Job ${updatedJob.jid} status updated to ${updatedJob.qcStatus}`,
+      title: "Import Failed",
+      description: batchCheck.error.issues.map(issue => issue.message).join('; '),
+      variant: "destructive",
     });
+    return false;
   };
 
-  const handleBatchImport = (file: File, batchInfo: BatchInfo) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const content = e.target?.result as string;
-      try {
-        const newJobs = parseCSVToBatch(content, batchInfo, batchInfo.type);
-        const updatedBatchInfo = { ...batchInfo, jobCount: newJobs.length };
-
-        if (batchInfo.type === 'QCed') {
-          setJobs(prev => {
-            const existingJobMap = new Map(prev.map(job => [job.jid, job]));
-            const mergedJobs = [...prev];
-            newJobs.forEach(newJob => {
-              const existingJobIndex = mergedJobs.findIndex(j => j.jid === newJob.jid);
-              if (existingJobIndex >= 0) {
-                mergedJobs[existingJobIndex] = { ...mergedJobs[existingJobIndex], ...newJob };
-              } else {
-                mergedJobs.push(newJob);
-              }
-            });
-            return mergedJobs;
-          });
-        } else {
-          setJobs(prev => {
-            const existingJids = new Set(prev.map(job => job.jid));
-            const uniqueNewJobs = newJobs.filter(job => !existingJids.has(job.jid));
-            return [...prev, ...uniqueNewJobs];
-          });
-        }
-
-        setBatches(prev => [...prev, updatedBatchInfo]);
-        setShowImportModal(false);
+  // Adds finished batches to the summary, which opens by itself when rows were skipped
+  const publishImportResults = (results: ImportResult[]) => {
+    setImportResults(prev => [...prev, ...results]);
+    if (hasSkippedRows(results)) setShowImportSummary(true);
+  };
 
-        toast({
-          title: "Batch Import Successful",
-          description: `Created ${updatedBatchInfo.name} with ${newJobs.length} jobs`,
+  const summaryAction = (
+    <ToastAction altText="View import summary" onClick={() => setShowImportSummary(true)}>
+      Summary
+    </ToastAction>
+  );
+
+  const handleBatchImport = async (requests: ImportFileRequest[], mode: ImportBatchMode) => {
+    setImportResults([]);
+    setShowImportSummary(false);
+    if (mode === 'combined') {
+      await importCombinedBatch(requests);
+    } else {
+      await importBatchPerFile(requests);
+    }
+    setImportStep(null);
+  };
+
+  // Each file becomes its own batch. Fresh batches are stored one after another,
+  // each diffed against the workspace the earlier ones left; QC batches queue
+  // for review one at a time.
+  const importBatchPerFile = async (requests: ImportFileRequest[]) => {
+    let knownBatches = batches;
+    const createdBatches: BatchInfo[] = [];
+    const reviews: PendingImport[] = [];
+    const results: ImportResult[] = [];
+    let warningCount = 0;
+    let cancelled = false;
+
+    for (const [index, request] of requests.entries()) {
+      setImportStep({ current: index + 1, total: requests.length, fileName: request.file.name });
+      const batchInfo = { ...request.batchInfo, id: generateBatchId(knownBatches) };
+      const existingJobs = latestWorkspace()?.jobs ?? jobs;
+      const result = await runImportFile(request, batchInfo, existingJobs);
+      if (result === undefined) break;
+      if (result === null) {
+        cancelled = true;
+        break;
+      }
+
+      const { parse, reportSummary, diff } = result;
+      const updatedBatchInfo = {
+        ...batchInfo,
+        jobCount: parse.jobs.length,
+        reportSummary: reportSummary ?? undefined
+      };
+      if (!checkBatchInfo(updatedBatchInfo)) break;
+
+      knownBatches = [...knownBatches, updatedBatchInfo];
+      const sources = [createFileSource(request.file.name, parse)];
+      const fileWarnings = parse.issues.filter(issue => issue.severity === 'warning').length;
+      warningCount += fileWarnings;
+
+      // QC'ed data can overwrite existing verdicts, so it is reviewed before merging
+      if (updatedBatchInfo.type === 'QCed') {
+        reviews.push({
+          batchInfo: updatedBatchInfo,
+          jobs: parse.jobs,
+          diff,
+          diffBase: existingJobs,
+          sources,
+          warningCount: fileWarnings,
+          customFields: parse.customFields
         });
+        continue;
+      }
+
+      // Another tab may have changed the workspace while the file was in the worker
+      const current = latestWorkspace();
+      const currentJobs = current?.jobs ?? jobs;
+      const freshDiff = currentJobs === existingJobs ? diff : diffFreshImport(currentJobs, parse.jobs);
+      const appliedJobs = applyImportDiff(currentJobs, freshDiff);
+      const createdBatch = { ...updatedBatchInfo, jobCount: countBatchJobs(appliedJobs, updatedBatchInfo.id) };
+      const fieldRegistry = mergeCustomFields(current?.settings.customFields ?? customFields, parse.customFields);
+      try {
+        await importBatch.mutateAsync(createBatchImport(createdBatch, currentJobs, appliedJobs, fieldRegistry));
       } catch {
+        // Reported by the mutation; the remaining files are not imported
+        break;
+      }
+      createdBatches.push(createdBatch);
+      results.push(buildImportResult(createdBatch, sources, freshDiff));
+    }
+
+    if (createdBatches.length > 0) publishImportResults(results);
+    if (reviews.length > 0) setPendingImports(prev => [...prev, ...reviews]);
+    if (createdBatches.length > 0 || reviews.length > 0) setShowImportModal(false);
+
+    if (cancelled) {
+      toast({
+        title: "Import Cancelled",
+        description: createdBatches.length > 0
+          ? `Kept ${createdBatches.map(batch => batch.name).join(', ')}; the remaining files were not imported`
+          : "No jobs were changed",
+      });
+    }
+    if (createdBatches.length === 0) return;
+
+    toast({
+      title: "Batch Import Successful",
+      description: (createdBatches.length === 1
+        ? `Created ${createdBatches[0].name}: `
+        : `Created ${createdBatches.length} batches: `) +
+        describeOutcomes(results.flatMap(resultRows)) +
+        (warningCount > 0 ? ` (${warningCount} warnings)` : ''),
+      action: summaryAction,
+    });
+  };
+
+  // All files go into one batch; a Job ID seen in an earlier file is skipped
+  const importCombinedBatch = async (requests: ImportFileRequest[]) => {
+    const batchInfo = { ...requests[0].batchInfo, id: generateBatchId(batches) };
+    const results: ImportWorkerResult[] = [];
+
+    for (const [index, request] of requests.entries()) {
+      setImportStep({ current: index + 1, total: requests.length, fileName: request.file.name });
+      const result = await runImportFile(request, batchInfo, jobs);
+      if (result === undefined) return;
+      if (result === null) {
         toast({
-          title: "Import Failed",
-          description: "Failed to parse CSV file",
-          variant: "destructive",
+          title: "Import Cancelled",
+          description: "No jobs were changed",
         });
+        return;
       }
+      results.push(result);
+    }
+
+    const { jobs: combinedJobs, repeatedJobIds } = combineBatchJobs(results.map(result => result.parse.jobs));
+    const sources = results.map((result, index) => createFileSource(requests[index].file.name, result.parse, repeatedJobIds[index]));
+    const warningCount = results.reduce(
+      (sum, result) => sum + result.parse.issues.filter(issue => issue.severity === 'warning').length,
+      0
+    );
+    const fileFields = results.reduce((fields, result) => mergeCustomFields(fields, result.parse.customFields), [] as CustomFieldDefinition[]);
+    const updatedBatchInfo = {
+      ...batchInfo,
+      jobCount: combinedJobs.length,
+      // A report summary only reconciles against the file it came from
+      reportSummary: results.length === 1 ? results[0].reportSummary ?? undefined : undefined
     };
-    reader.readAsText(file);
+    if (!checkBatchInfo(updatedBatchInfo)) return;
+    setShowImportModal(false);
+    const current = latestWorkspace();
+    const currentJobs = current?.jobs ?? jobs;
+
+    if (updatedBatchInfo.type === 'QCed') {
+      setPendingImports(prev => [...prev, {
+        batchInfo: updatedBatchInfo,
+        jobs: combinedJobs,
+        diff: diffImport(currentJobs, combinedJobs, mergeOptions),
+        diffBase: currentJobs,
+        sources,
+        warningCount,
+        customFields: fileFields
+      }]);
+      return;
+    }
+
+    const diff = diffFreshImport(currentJobs, combinedJobs);
+    const nextJobs = applyImportDiff(currentJobs, diff);
+    const createdBatch = { ...updatedBatchInfo, jobCount: countBatchJobs(nextJobs, updatedBatchInfo.id) };
+    const result = buildImportResult(createdBatch, sources, diff);
+
+    const fieldRegistry = mergeCustomFields(current?.settings.customFields ?? customFields, fileFields);
+    try {
+      await importBatch.mutateAsync(createBatchImport(createdBatch, currentJobs, nextJobs, fieldRegistry));
+    } catch {
+      return;
+    }
+    publishImportResults([result]);
+
+    toast({
+      title: "Batch Import Successful",
+      description: `Created ${createdBatch.name} from ${results.length} files: ${describeOutcomes(resultRows(result))}` +
+        (warningCount > 0 ? ` (${warningCount} warnings)` : ''),
+      action: summaryAction,
+    });
+  };
+
+  const pendingImport = pendingImports[0];
+
+  // The next review opens once this one is stored, so it diffs against the updated jobs
+  const handleImportConfirm = async (diff: ImportDiff) => {
+    if (!pendingImport) return;
+    const current = latestWorkspace();
+    const currentJobs = current?.jobs ?? jobs;
+    const nextJobs = applyImportDiff(currentJobs, diff);
+    const batchInfo = { ...pendingImport.batchInfo, jobCount: countBatchJobs(nextJobs, pendingImport.batchInfo.id) };
+    const result = buildImportResult(batchInfo, pendingImport.sources, diff);
+    const fieldRegistry = mergeCustomFields(current?.settings.customFields ?? customFields, pendingImport.customFields);
+
+    const saving = importBatch.mutateAsync(createBatchImport(batchInfo, currentJobs, nextJobs, fieldRegistry));
+    setPendingImports(prev => prev.slice(1));
+    try {
+      await saving;
+    } catch {
+      return;
+    }
+    publishImportResults([result]);
+
+    toast({
+      title: "Batch Import Successful",
+      description: `Created ${batchInfo.name}: ${describeOutcomes(resultRows(result))}` +
+        (pendingImport.warningCount > 0 ? ` (${pendingImport.warningCount} warnings)` : ''),
+      action: summaryAction,
+    });
+  };
+
+  const handleImportCancel = () => {
+    if (!pendingImport) return;
+    setPendingImports(prev => prev.slice(1));
+    toast({
+      title: "Import Cancelled",
+      description: `${pendingImport.batchInfo.name} was not imported`,
+    });
+  };
+
+  const handleBatchRevert = (batchId: string) => {
+    // Other tabs' changes and writes still in flight are in the cache before they render
+    const current = latestWorkspace();
+    const currentLog = current?.importLog ?? importLog;
+    const transaction = currentLog.find(entry => entry.batch.id === batchId);
+    if (!transaction) return;
+
+    const blockers = findRevertBlockers(transaction, currentLog);
+    if (blockers.length > 0) {
+      toast({
+        title: "Revert Blocked",
+        description: `Revert ${blockers.map(b => b.batch.name).join(', ')} first; it changed the same jobs.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const { request, editedSinceImport } = createBatchRevert(current?.jobs ?? jobs, transaction, actor);
+    revertBatch.mutate(request);
+    if (selectedBatch === batchId) setSelectedBatch(undefined);
+
+    toast({
+      title: "Import Reverted",
+      description: `Removed ${transaction.createdJobIds.length} jobs and restored ${Object.keys(transaction.priorValues).length} jobs from ${transaction.batch.name}` +
+        (editedSinceImport.length > 0 ? `. ${editedSinceImport.length} of them had been edited after the import.` : ''),
+    });
   };
 
-  const handleExportCSV = () => {
-    const csvContent = selectedBatch ? batchJobsToCSV(jobs, selectedBatch) : jobsToCSV(jobs);
+  const handleExport = (filteredJobs: Job[]) => {
     const timestamp = new Date().toISOString().split('T')[0];
-    const filename = selectedBatch ? `batch_${selectedBatch}_export_${timestamp}.csv` : `jobs_export_${timestamp}.csv`;
-    downloadCSV(csvContent, filename);
+    setExportRequest({
+      title: selectedBatch ? `Export ${selectedBatch}` : 'Export Jobs',
+      fileBaseName: selectedBatch ? `batch_${selectedBatch}_export_${timestamp}` : `jobs_export_${timestamp}`,
+      jobs: selectedBatch ? jobs.filter(job => job.batchId === selectedBatch) : jobs,
+      filteredJobs
+    });
   };
 
   const handleBatchExport = (batchId: string) => {
-    const csvContent = batchJobsToCSV(jobs, batchId);
     const timestamp = new Date().toISOString().split('T')[0];
     const batch = batches.find(b => b.id === batchId);
-    const filename = `batch_${batch?.name || batchId}_export_${timestamp}.csv`;
-    downloadCSV(csvContent, filename);
-  };
-
-  const handleJobAssign = (jobIds: string[], assignedTo: string) => {
-    setJobs(prev => prev.map(job => 
-      jobIds.includes(job.jid) 
-        ? { ...job, assignedTo, assignedDate: new Date().toISOString(), assignedBy: 'Current User' }
-        : job
-    ));
+    setExportRequest({
+      title: `Export ${batch?.name || batchId}`,
+      fileBaseName: `batch_${batch?.name || batchId}_export_${timestamp}`,
+      jobs: jobs.filter(job => job.batchId === batchId)
+    });
   };
 
-  if (loading) {
+  if (workspace.isLoading) {
     return (
       <div className="min-h-screen bg-gradient-subtle flex items-center justify-center">
         <div className="text-center space-y-4">
@@ -168,14 +485,59 @@ const Index = () => {
     );
   }
 
+  if (workspace.isError) {
+    return (
+      <div className="min-h-screen bg-gradient-subtle flex items-center justify-center">
+        <Card className="p-8 text-center space-y-4 max-w-md">
+          <Database className="h-12 w-12 text-muted-foreground mx-auto" />
+          <div className="space-y-1">
+            <h2 className="text-xl font-semibold">Could not load the workspace</h2>
+            <p className="text-muted-foreground">
+              {workspace.error instanceof Error ? workspace.error.message : 'The workspace storage did not respond'}
+            </p>
+          </div>
+          <Button onClick={() => workspace.refetch()}>Try Again</Button>
+        </Card>
+      </div>
+    );
+  }
+
   const anomalyCount = jobs.filter(j => j.rejectReason?.includes('retrror')).length;
 
   const renderMainContent = () => {
     const filteredJobs = selectedBatch ? jobs.filter(j => j.batchId === selectedBatch) : jobs;
+    const reportBatches = batches.filter(b => b.reportSummary && (!selectedBatch || b.id === selectedBatch));
+
+    if (isWorkspaceEmpty({ jobs, batches })) {
+      return (
+        <Card className="p-12 text-center space-y-4 max-w-xl mx-auto">
+          <Database className="h-12 w-12 text-muted-foreground mx-auto" />
+          <div className="space-y-1">
+            <h2 className="text-xl font-semibold">Your workspace is empty</h2>
+            <p className="text-muted-foreground">
+              Import a batch to get started, or explore the dashboard with the bundled sample jobs.
+            </p>
+          </div>
+          <div className="flex justify-center gap-3">
+            <Button onClick={() => setShowImportModal(true)} className="gap-2">
+              <Plus size={16} />
+              New Batch
+            </Button>
+            <Button variant="outline" onClick={handleLoadDemoData} disabled={loadingDemo}>
+              {loadingDemo ? 'Loading...' : 'Load Demo Data'}
+            </Button>
+          </div>
+        </Card>
+      );
+    }
 
     switch (currentView) {
       case 'ai-insights':
-        return <AnomalyDetection jobs={filteredJobs} batchId={selectedBatch} />;
+        return <AnomalyDetection batchId={selectedBatch} />;
+      case 'audit-log':
+        return <AuditLog batchId={selectedBatch} />;
+      case 'rework':
+        return <ReworkMetrics batchId={selectedBatch} />;
       case 'batch-view':
         return (
           <div className="space-y-6">
@@ -184,12 +546,12 @@ const Index = () => {
             </Button>
             <JobTable
               jobs={filteredJobs}
-              onJobUpdate={handleJobUpdate}
-              onExportCSV={handleExportCSV}
+              onExport={handleExport}
               batchId={selectedBatch}
               showBatchControls={true}
-              onJobAssign={handleJobAssign}
               qcResources={qcResources}
+              customFields={customFields}
+              workflow={settings.qcWorkflow}
             />
           </div>
         );
@@ -205,7 +567,6 @@ const Index = () => {
 
             <section>
               <BatchManager
-                batches={batches}
                 selectedBatch={selectedBatch}
                 onBatchSelect={setSelectedBatch}
                 onBatchView={(batchId) => {
@@ -213,18 +574,29 @@ const Index = () => {
                   setCurrentView('batch-view');
                 }}
                 onBatchExport={handleBatchExport}
+                onBatchRevert={handleBatchRevert}
               />
             </section>
 
+            {reportBatches.map(batch => (
+              <section key={batch.id}>
+                <ReportReconciliation
+                  summary={batch.reportSummary!}
+                  jobs={jobs.filter(j => j.batchId === batch.id)}
+                  batchName={batch.name}
+                />
+              </section>
+            ))}
+
             <section>
               <JobTable
                 jobs={filteredJobs}
-                onJobUpdate={handleJobUpdate}
-                onExportCSV={handleExportCSV}
+                onExport={handleExport}
                 batchId={selectedBatch}
                 showBatchControls={!!selectedBatch}
-                onJobAssign={handleJobAssign}
                 qcResources={qcResources}
+                customFields={customFields}
+                workflow={settings.qcWorkflow}
               />
             </section>
           </div>
@@ -260,10 +632,38 @@ const Index = () => {
               </div>
             </div>
             <div className="flex items-center gap-3">
+              <CurrentUserButton />
               <Button onClick={() => setShowImportModal(true)} variant="secondary" className="gap-2">
                 <Plus size={16} />
                 New Batch
               </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="secondary" className="gap-2">
+                    <HardDrive size={16} />
+                    Workspace
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={handleExportWorkspace} disabled={!workspace.data} className="gap-2">
+                    <Download size={16} />
+                    Export Workspace
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setShowRestoreWorkspace(true)} className="gap-2">
+                    <ArchiveRestore size={16} />
+                    Import Workspace
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => setShowQCWorkflow(true)} className="gap-2">
+                    <Workflow size={16} />
+                    QC Workflow
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setShowValidationRules(true)} className="gap-2">
+                    <ShieldCheck size={16} />
+                    Validation Rules
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
               <Badge variant="success" className="px-4 py-2 text-sm">
                 <Zap className="w-4 h-4 mr-2" />
                 Live Monitoring
@@ -283,7 +683,48 @@ const Index = () => {
         onOpenChange={setShowImportModal}
         onImport={handleBatchImport}
         nextBatchId={generateBatchId(batches)}
+        existingJobs={jobs}
+        customFields={customFields}
+        ruleSettings={settings.ruleSettings}
+        importProgress={importWorker.progress}
+        importStep={importStep}
+        onCancelImport={importWorker.cancel}
+      />
+
+      {exportRequest && (
+        <ExportDialog
+          open={true}
+          onOpenChange={(open) => { if (!open) setExportRequest(null); }}
+          batches={batches}
+          customFields={customFields}
+          {...exportRequest}
+        />
+      )}
+
+      {pendingImport && !importBatch.isPending && (
+        <ImportPreviewDialog
+          key={pendingImport.batchInfo.id}
+          open={true}
+          batchInfo={pendingImport.batchInfo}
+          existingJobs={jobs}
+          incomingJobs={pendingImport.jobs}
+          initialDiff={pendingImport.diffBase === jobs ? pendingImport.diff : undefined}
+          customFields={mergeCustomFields(customFields, pendingImport.customFields)}
+          workflow={settings.qcWorkflow}
+          onConfirm={handleImportConfirm}
+          onCancel={handleImportCancel}
+        />
+      )}
+
+      <ImportSummaryDialog
+        open={showImportSummary && !pendingImport && importResults.length > 0}
+        onOpenChange={setShowImportSummary}
+        results={importResults}
       />
+
+      <RestoreWorkspaceDialog open={showRestoreWorkspace} onOpenChange={setShowRestoreWorkspace} />
+      {showQCWorkflow && <QCWorkflowDialog onClose={() => setShowQCWorkflow(false)} />}
+      {showValidationRules && <ValidationRulesDialog onClose={() => setShowValidationRules(false)} />}
     </div>
   );
 };
@@ -0,0 +1,154 @@
+import type { Job } from "@/components/JobTable";
+import { rowsToCSV } from "@/utils/csvUtils";
+import { EXPORT_COLUMNS, exportColumnLabel } from "@/utils/exportUtils";
+import type { ExportColumnKey } from "@/utils/exportUtils";
+import { customFieldColumn, formatCustomValue } from "@/utils/customFields";
+import type { CustomFieldDefinition } from "@/utils/customFields";
+
+export type AuditAction = 'status' | 'assignment' | 'edit' | 'import' | 'revert' | 'undo' | 'redo';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  status: 'Status change',
+  assignment: 'Assignment',
+  edit: 'Field edit',
+  import: 'Import',
+  revert: 'Import reverted',
+  undo: 'Undo',
+  redo: 'Redo',
+};
+
+// One field as it read before and after the change, in display form
+export interface AuditChange {
+  field: ExportColumnKey;
+  before: string;
+  after: string;
+}
+
+/** One change to one job. Events are only ever appended, never edited. */
+export interface AuditEvent {
+  id: string;
+  jid: string;
+  batchId?: string;
+  action: AuditAction;
+  actor: string;
+  at: string;
+  // Set when the change brought the job into or out of the workspace
+  lifecycle?: 'created' | 'deleted';
+  changes: AuditChange[];
+}
+
+// Job ID identifies the job, and the batch is recorded on the event itself
+const AUDITED_COLUMNS = EXPORT_COLUMNS.map(column => column.key).filter(key => key !== 'jid');
+
+const fieldText = (job: Job | undefined, key: ExportColumnKey): string => {
+  if (!job) return '';
+  if (key.startsWith('custom:')) return formatCustomValue(job, key.slice('custom:'.length));
+  return job[key as keyof Job] as string || '';
+};
+
+/** The fields that read differently, including custom fields present on either side. */
+export function diffJobFields(before: Job | undefined, after: Job | undefined): AuditChange[] {
+  const customKeys = new Set([
+    ...Object.keys(before?.customFields || {}),
+    ...Object.keys(after?.customFields || {}),
+  ]);
+  const columns: ExportColumnKey[] = [...AUDITED_COLUMNS, ...[...customKeys].map(customFieldColumn)];
+
+  return columns
+    .map(field => ({ field, before: fieldText(before, field), after: fieldText(after, field) }))
+    .filter(change => change.before !== change.after);
+}
+
+let sequence = 0;
+
+// Unique across tabs too, so merged logs never drop an event as a duplicate
+const nextAuditId = (at: string) =>
+  `audit_${Date.parse(at) || Date.now()}_${(sequence++).toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Records one event per job that changed. A pair without a before is a new
+ * job, one without an after a removed job; pairs without changes are skipped.
+ */
+export function createAuditEvents(
+  pairs: { before?: Job; after?: Job }[],
+  action: AuditAction,
+  actor: string,
+  at = new Date().toISOString()
+): AuditEvent[] {
+  return pairs.flatMap(({ before, after }) => {
+    const job = after || before;
+    if (!job) return [];
+    const changes = diffJobFields(before, after);
+    const lifecycle = !before ? 'created' : !after ? 'deleted' : undefined;
+    if (!lifecycle && changes.length === 0) return [];
+    return [{
+      id: nextAuditId(at),
+      jid: job.jid,
+      batchId: job.batchId,
+      action,
+      actor,
+      at,
+      ...(lifecycle && { lifecycle }),
+      // A created or deleted job's full field list says nothing the lifecycle does not
+      changes: lifecycle ? [] : changes,
+    }];
+  });
+}
+
+/** Adds events not in the log yet, keeping it in time order. */
+export function appendAuditEvents(log: AuditEvent[], events: AuditEvent[]): AuditEvent[] {
+  const known = new Set(log.map(event => event.id));
+  const added = events.filter(event => !known.has(event.id));
+  if (added.length === 0) return log;
+  return [...log, ...added].sort((a, b) => a.at.localeCompare(b.at));
+}
+
+export function describeAuditEvent(event: AuditEvent, customFields: CustomFieldDefinition[] = []): string {
+  if (event.lifecycle === 'created') return `Created${event.batchId ? ` in ${event.batchId}` : ''}`;
+  if (event.lifecycle === 'deleted') return `Removed${event.batchId ? ` with ${event.batchId}` : ''}`;
+  return event.changes
+    .map(change => `${exportColumnLabel(change.field, customFields)}: ${change.before || '—'} → ${change.after || '—'}`)
+    .join('; ');
+}
+
+export interface AuditFilter {
+  search: string;
+  action: AuditAction | 'all';
+  actor: string;
+  // YYYY-MM-DD, inclusive
+  from?: string;
+  to?: string;
+}
+
+export const DEFAULT_AUDIT_FILTER: AuditFilter = { search: '', action: 'all', actor: 'all' };
+
+/** Newest first. The search matches the Job ID, batch and changed values. */
+export function filterAuditEvents(log: AuditEvent[], filter: AuditFilter): AuditEvent[] {
+  const search = filter.search.trim().toLowerCase();
+  return log
+    .filter(event => {
+      if (filter.action !== 'all' && event.action !== filter.action) return false;
+      if (filter.actor !== 'all' && event.actor !== filter.actor) return false;
+      const day = event.at.slice(0, 10);
+      if (filter.from && day < filter.from) return false;
+      if (filter.to && day > filter.to) return false;
+      if (!search) return true;
+      return [event.jid, event.batchId || '', ...event.changes.flatMap(change => [change.before, change.after])]
+        .some(text => text.toLowerCase().includes(search));
+    })
+    .reverse();
+}
+
+export const jobAuditHistory = (log: AuditEvent[], jid: string) =>
+  log.filter(event => event.jid === jid).reverse();
+
+export function auditEventsToCSV(events: AuditEvent[], customFields: CustomFieldDefinition[] = []): string {
+  const header = ['Time', 'Job ID', 'Batch ID', 'Action', 'Actor', 'Field', 'Before', 'After'];
+  // One row per changed field, so the file filters well in a spreadsheet
+  const rows = events.flatMap(event => {
+    const base = [event.at, event.jid, event.batchId || '', AUDIT_ACTION_LABELS[event.action], event.actor];
+    if (event.changes.length === 0) return [[...base, '', '', describeAuditEvent(event, customFields)]];
+    return event.changes.map(change => [...base, exportColumnLabel(change.field, customFields), change.before, change.after]);
+  });
+  return rowsToCSV([header, ...rows]);
+}
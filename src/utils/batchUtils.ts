@@ -1,5 +1,50 @@
 import type { Job } from "@/components/JobTable";
 import type { BatchInfo } from "@/components/CSVImportModal";
+import { parseCSVRows, isBlankRow, rowsToCSV, detectImportLayout } from "@/utils/csvUtils";
+import type { ImportLayout } from "@/utils/csvUtils";
+import { normalizeJobDates } from "@/utils/dateUtils";
+import type { DateColumn, DateFormatDetection, DateFormatOverrides } from "@/utils/dateUtils";
+import { resolveColumnIndexes } from "@/utils/columnMapping";
+import type { ColumnMapping, MappableField } from "@/utils/columnMapping";
+import { runValidationRules, isFileLevelIssue } from "@/utils/validationRules";
+import type { BatchRuleSettings, ImportIssue } from "@/utils/validationRules";
+import { unguardFormulaCell } from "@/utils/exportUtils";
+import { extractCustomFields, findCustomColumns } from "@/utils/customFields";
+import type { CustomFieldDefinition } from "@/utils/customFields";
+
+export interface BatchParseOptions {
+  dateFormats?: DateFormatOverrides;
+  // Falls back to proposeColumnMapping when not confirmed by the user
+  columnMapping?: ColumnMapping;
+  // Per batch type overrides of the validation rule defaults, from the workspace settings
+  ruleSettings?: Partial<BatchRuleSettings>;
+  // Enables the referential rules
+  existingJobs?: Job[];
+  // Batches a mapped Batch ID column may keep jobs in; other IDs join the importing batch
+  existingBatchIds?: string[];
+  // Workspace field registry; known custom columns keep their registered type
+  customFields?: CustomFieldDefinition[];
+}
+
+export interface BatchParseResult {
+  // Only rows without error-severity issues
+  jobs: Job[];
+  issues: ImportIssue[];
+  invalidRowCount: number;
+  // Record number and Job ID of every rejected row
+  invalidRows: { row: number; jid: string }[];
+  dateFormats: Record<DateColumn, DateFormatDetection>;
+  layout: ImportLayout;
+  // Unmapped columns kept as custom fields, to be merged into the registry
+  customFields: CustomFieldDefinition[];
+}
+
+export type BatchParseProgress = (processedRows: number, totalRows: number) => void;
+
+// How several files imported together become batches
+export type ImportBatchMode = 'per-file' | 'combined';
+
+const PROGRESS_INTERVAL = 5000;
 
 export function generateBatchId(existingBatches: BatchInfo[]): string {
   const maxId = existingBatches.reduce((max, batch) => {
@@ -14,178 +59,177 @@ export function generateBatchId(existingBatches: BatchInfo[]): string {
   return `Batch-${maxId + 1}`;
 }
 
-export function parseCSVToBatch(csvContent: string, batchInfo: BatchInfo, type: 'Fresh' | 'QCed'): Job[] {
-  const lines = csvContent.trim().split('\n');
+export function parseCSVToBatch(
+  csvContent: string,
+  batchInfo: BatchInfo,
+  type: 'Fresh' | 'QCed',
+  options: BatchParseOptions = {}
+): BatchParseResult {
+  return parseRowsToBatch(parseCSVRows(csvContent), batchInfo, type, options);
+}
+
+/** Same as parseCSVToBatch for records that were already tokenized, e.g. streamed in chunks. */
+export function parseRowsToBatch(
+  records: string[][],
+  batchInfo: BatchInfo,
+  type: 'Fresh' | 'QCed',
+  options: BatchParseOptions = {},
+  onProgress?: BatchParseProgress
+): BatchParseResult {
+  const detection = detectImportLayout(records, options.customFields);
+  // Guarded exports quote-prefix formula-like cells; the prefix is not part of the value
+  const cellsOf = detection.formulaGuard
+    ? (cells: string[]) => cells.map(unguardFormulaCell)
+    : (cells: string[]) => cells;
+  const rows = records
+    .map((cells, index) => ({ cells: cellsOf(cells), rowNumber: index + 1 }))
+    .filter(row => row.rowNumber > detection.headerIndex + 1 && !isBlankRow(row.cells));
   const jobs: Job[] = [];
+  const rowNumbers: number[] = [];
   
-  if (lines.length < 2) return jobs;
-  
-  const headers = lines[0].toLowerCase().split(',').map(h => h.trim());
+  const headers = detection.headers;
+  const mapping = options.columnMapping || detection.mapping;
+  const index = resolveColumnIndexes(headers, mapping);
+  const cell = (columns: string[], field: MappableField) => index[field] >= 0 ? columns[index[field]] || '' : '';
+  const knownBatchIds = new Set(options.existingBatchIds);
+  const custom = extractCustomFields(
+    rows.map(row => row.cells),
+    findCustomColumns(headers, mapping, detection.columnCount),
+    options.customFields
+  );
   
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-    
-    const columns = line.split(',').map(col => col.trim().replace(/^["']|["']$/g, ''));
+  for (let i = 0; i < rows.length; i++) {
+    const columns = rows[i].cells.map(col => col.trim());
+    const jid = cell(columns, 'jid');
+    // Assignment survives an export/import round trip for both batch types
+    const assignment = {
+      assignedTo: cell(columns, 'assignedTo') || undefined,
+      assignedDate: cell(columns, 'assignedDate') || undefined,
+      assignedBy: cell(columns, 'assignedBy') || undefined
+    };
+    const customFields = Object.keys(custom.values[i]).length > 0 ? custom.values[i] : undefined;
+    const fileBatchId = cell(columns, 'batchId');
+    const batchId = fileBatchId && knownBatchIds.has(fileBatchId) ? fileBatchId : batchInfo.id;
     
     if (type === 'Fresh') {
-      // For Fresh Data: job_id, ref_id, client_file_name are required
-      const jobIdIndex = headers.findIndex(h => h.includes('job') && h.includes('id'));
-      const refIdIndex = headers.findIndex(h => h.includes('ref') && h.includes('id'));
-      const clientFileIndex = headers.findIndex(h => h.includes('client') && h.includes('file'));
-      
-      if (jobIdIndex >= 0 && columns[jobIdIndex]) {
-        const job: Job = {
-          jid: columns[jobIdIndex] || `job_${Date.now()}_${i}`,
-          refId: columns[refIdIndex] || '',
-          clientFileName: columns[clientFileIndex] || '',
-          dataStatus: '',
-          makingDate: '',
-          qcName: '',
-          qcDate: '',
-          qcStatus: 'Not Started',
-          batchId: batchInfo.id,
-          rejectReason: '',
-          reworkDate: '',
-          comment: ''
-        };
-        jobs.push(job);
-      }
+      // Fresh Data only carries identifiers; QC fields start empty
+      const job: Job = {
+        jid,
+        refId: cell(columns, 'refId'),
+        clientFileName: cell(columns, 'clientFileName'),
+        dataStatus: '',
+        makingDate: '',
+        qcName: '',
+        qcDate: '',
+        qcStatus: 'Not Started',
+        batchId,
+        rejectReason: '',
+        reworkDate: '',
+        comment: '',
+        ...assignment,
+        customFields
+      };
+      jobs.push(job);
     } else {
-      // For QC'ed Data: job_id, client_file, data_status, making_date, qc_name, qc_date, qc_status, action
-      const jobIdIndex = headers.findIndex(h => h.includes('jid') || (h.includes('job') && h.includes('id')));
-      const refIdIndex = headers.findIndex(h => h.includes('ref') && h.includes('id'));
-      const clientFileIndex = headers.findIndex(h => h.includes('client') && h.includes('file'));
-      const dataStatusIndex = headers.findIndex(h => h.includes('data') && h.includes('status'));
-      const makingDateIndex = headers.findIndex(h => h.includes('making') && h.includes('date'));
-      const qcNameIndex = headers.findIndex(h => h.includes('qc') && h.includes('name'));
-      const qcDateIndex = headers.findIndex(h => h.includes('qc') && h.includes('date'));
-      const qcStatusIndex = headers.findIndex(h => h.includes('qc') && h.includes('status'));
-      const rejectReasonIndex = headers.findIndex(h => h.includes('reject') || h.includes('reason'));
-      const reworkDateIndex = headers.findIndex(h => h.includes('rework') && h.includes('date'));
-      const commentIndex = headers.findIndex(h => h.includes('comment'));
-      
-      if (jobIdIndex >= 0 && columns[jobIdIndex]) {
-        const job: Job = {
-          jid: columns[jobIdIndex] || `job_${Date.now()}_${i}`,
-          refId: columns[refIdIndex] || '',
-          clientFileName: columns[clientFileIndex] || '',
-          dataStatus: columns[dataStatusIndex] || 'Done',
-          makingDate: columns[makingDateIndex] || '',
-          qcName: columns[qcNameIndex] || '',
-          qcDate: columns[qcDateIndex] || '',
-          qcStatus: columns[qcStatusIndex] || 'Not Started',
-          batchId: batchInfo.id,
-          rejectReason: columns[rejectReasonIndex] || '',
-          reworkDate: columns[reworkDateIndex] || '',
-          comment: columns[commentIndex] || ''
-        };
-        jobs.push(job);
-      }
+      const job: Job = {
+        jid,
+        refId: cell(columns, 'refId'),
+        clientFileName: cell(columns, 'clientFileName'),
+        dataStatus: cell(columns, 'dataStatus'),
+        makingDate: cell(columns, 'makingDate'),
+        qcName: cell(columns, 'qcName'),
+        qcDate: cell(columns, 'qcDate'),
+        qcStatus: cell(columns, 'qcStatus'),
+        batchId,
+        rejectReason: cell(columns, 'rejectReason'),
+        rejectCategory: cell(columns, 'rejectCategory') || undefined,
+        errorSeverity: cell(columns, 'errorSeverity') || undefined,
+        reworkDate: cell(columns, 'reworkDate'),
+        comment: cell(columns, 'comment'),
+        ...assignment,
+        customFields
+      };
+      jobs.push(job);
     }
+    rowNumbers.push(rows[i].rowNumber);
+    if (onProgress && i % PROGRESS_INTERVAL === 0) onProgress(i, rows.length);
   }
   
-  return jobs;
-}
-
-export function validateCSVSchema(csvContent: string, type: 'Fresh' | 'QCed'): { valid: boolean; errors: string[] } {
-  const lines = csvContent.trim().split('\n');
-  const errors: string[] = [];
+  const normalized = normalizeJobDates(jobs, options.dateFormats);
+  const issues = runValidationRules({
+    batchType: type,
+    headers,
+    mapping,
+    headerRow: detection.headerIndex + 1,
+    rows: normalized.jobs.map((job, i) => ({ row: rowNumbers[i], job })),
+    dateFormats: normalized.formats,
+    existingJobs: options.existingJobs,
+    customFields: custom.definitions
+  }, options.ruleSettings?.[type]);
   
-  if (lines.length < 2) {
-    errors.push('CSV file must contain at least a header row and one data row');
-    return { valid: false, errors };
-  }
+  // A file-level error such as an unmapped required column rejects every row
+  const errors = issues.filter(issue => issue.severity === 'error');
+  const fileRejected = errors.some(isFileLevelIssue);
+  const invalidRows = new Set(errors.map(issue => issue.row));
+  const validJobs = fileRejected ? [] : normalized.jobs.filter((_, i) => !invalidRows.has(rowNumbers[i]));
+  const rejectedRows = normalized.jobs
+    .map((job, i) => ({ row: rowNumbers[i], jid: job.jid }))
+    .filter(({ row }) => fileRejected || invalidRows.has(row));
   
-  const headers = lines[0].toLowerCase().split(',').map(h => h.trim());
+  onProgress?.(jobs.length, jobs.length);
   
-  if (type === 'Fresh') {
-    const requiredColumns = ['job_id', 'ref_id', 'client_file_name'];
-    const missingColumns = requiredColumns.filter(col => 
-      !headers.some(h => h.includes(col.replace('_', '')) || h.includes(col))
-    );
-    
-    if (missingColumns.length > 0) {
-      errors.push(`Missing required columns for Fresh Data: ${missingColumns.join(', ')}`);
-    }
-  } else {
-    const requiredColumns = ['job_id', 'client_file', 'data_status', 'making_date', 'qc_name', 'qc_date', 'qc_status'];
-    const missingColumns = requiredColumns.filter(col => 
-      !headers.some(h => h.includes(col.replace('_', '')) || h.includes(col))
-    );
-    
-    if (missingColumns.length > 0) {
-      errors.push(`Missing required columns for QC'ed Data: ${missingColumns.join(', ')}`);
-    }
-  }
-  
-  // Check for duplicate job IDs
-  const jobIds = new Set<string>();
-  const duplicates: string[] = [];
-  
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-    
-    const columns = line.split(',');
-    const jobId = columns[0]?.trim().replace(/^["']|["']$/g, '');
-    
-    if (jobId) {
-      if (jobIds.has(jobId)) {
-        duplicates.push(`Row ${i + 1}: ${jobId}`);
-      } else {
-        jobIds.add(jobId);
-      }
+  return {
+    jobs: validJobs,
+    issues,
+    invalidRowCount: rejectedRows.length,
+    invalidRows: rejectedRows,
+    dateFormats: normalized.formats,
+    layout: detection.layout,
+    customFields: custom.definitions
+  };
+}
+
+/**
+ * Counts each file's valid rows that will be skipped because their Job ID was
+ * already seen: in the workspace for Fresh data, or in an earlier file of the
+ * same import. Separate QC batches update each other instead, so only a
+ * combined QC batch drops repeats.
+ */
+export function countSkippedDuplicates(
+  fileJobIds: string[][],
+  existingJobs: Job[],
+  type: 'Fresh' | 'QCed',
+  mode: ImportBatchMode
+): number[] {
+  const seen = new Set(type === 'Fresh' ? existingJobs.map(job => job.jid) : []);
+  const dropsRepeats = type === 'Fresh' || mode === 'combined';
+
+  return fileJobIds.map(jobIds => jobIds.reduce((skipped, jid) => {
+    if (!seen.has(jid)) {
+      seen.add(jid);
+      return skipped;
     }
-  }
-  
-  if (duplicates.length > 0) {
-    errors.push(`Duplicate Job IDs found: ${duplicates.slice(0, 5).join(', ')}${duplicates.length > 5 ? ` and ${duplicates.length - 5} more...` : ''}`);
-  }
-  
-  return { valid: errors.length === 0, errors };
+    return dropsRepeats ? skipped + 1 : skipped;
+  }, 0));
 }
 
-export function batchJobsToCSV(jobs: Job[], batchId?: string): string {
-  const filteredJobs = batchId ? jobs.filter(job => job.batchId === batchId) : jobs;
-  
-  const headers = [
-    'JID',
-    'Ref ID', 
-    'Client File Name',
-    'Data Status',
-    'Making Date',
-    'QC Name',
-    'QC Date', 
-    'QC Status',
-    'Reject Reason',
-    'Rework Date',
-    'Comment',
-    'Batch ID',
-    'Assigned To',
-    'Assigned Date',
-    'Assigned By'
-  ];
-  
-  const rows = filteredJobs.map(job => [
-    job.jid,
-    job.refId,
-    job.clientFileName,
-    job.dataStatus,
-    job.makingDate,
-    job.qcName,
-    job.qcDate,
-    job.qcStatus,
-    job.rejectReason || '',
-    job.reworkDate || '',
-    job.comment || '',
-    job.batchId || '',
-    job.assignedTo || '',
-    job.assignedDate || '',
-    job.assignedBy || ''
+/** Joins the jobs of several files into one batch; the first file with a Job ID wins. */
+export function combineBatchJobs(fileJobs: Job[][]): { jobs: Job[]; repeatedJobIds: string[][] } {
+  const seen = new Set<string>();
+  const jobs: Job[] = [];
+  const repeatedJobIds = fileJobs.map(list => list.filter(job => {
+    if (seen.has(job.jid)) return true;
+    seen.add(job.jid);
+    jobs.push(job);
+    return false;
+  }).map(job => job.jid));
+  return { jobs, repeatedJobIds };
+}
+
+/** Serializes import issues as a downloadable CSV report. */
+export function importIssuesToCSV(issues: ImportIssue[]): string {
+  return rowsToCSV([
+    ['Row', 'Column', 'Value', 'Severity', 'Rule', 'Message'],
+    ...issues.map(issue => [String(issue.row), issue.column, issue.value, issue.severity, issue.rule, issue.message])
   ]);
-  
-  return [headers, ...rows].map(row => 
-    row.map(cell => `"${cell}"`).join(',')
-  ).join('\n');
-}
\ No newline at end of file
+}
@@ -0,0 +1,277 @@
+import type { Job } from "@/components/JobTable";
+
+export type MappableField =
+  | 'jid'
+  | 'batchId'
+  | 'refId'
+  | 'clientFileName'
+  | 'dataStatus'
+  | 'makingDate'
+  | 'qcName'
+  | 'qcDate'
+  | 'qcStatus'
+  | 'rejectReason'
+  | 'rejectCategory'
+  | 'errorSeverity'
+  | 'reworkDate'
+  | 'comment'
+  | 'assignedTo'
+  | 'assignedDate'
+  | 'assignedBy';
+
+export interface JobFieldDefinition {
+  key: MappableField & keyof Job;
+  label: string;
+  // Normalized header names that map to this field without ambiguity
+  aliases: string[];
+  // Every word must appear in the header for a partial match
+  keywords: string[][];
+  requiredFor: ('Fresh' | 'QCed')[];
+  // Shown under the field in the mapping step
+  hint?: string;
+}
+
+export const JOB_FIELDS: JobFieldDefinition[] = [
+  {
+    key: 'jid',
+    label: 'Job ID',
+    aliases: ['jid', 'jobid', 'job', 'taskkey', 'taskid', 'task'],
+    keywords: [['job', 'id'], ['task', 'key'], ['task', 'id']],
+    requiredFor: ['Fresh', 'QCed'],
+  },
+  {
+    // Never proposed: jobs join the importing batch unless the user maps this
+    // column to keep the file's batch, and only batches in the workspace are kept
+    key: 'batchId',
+    label: 'Batch ID',
+    aliases: [],
+    keywords: [],
+    requiredFor: [],
+    hint: 'Keeps jobs in their batch from the file if it exists here',
+  },
+  {
+    key: 'refId',
+    label: 'Ref ID',
+    aliases: ['refid', 'ref', 'reference', 'referenceid'],
+    keywords: [['ref', 'id'], ['reference']],
+    requiredFor: ['Fresh'],
+  },
+  {
+    key: 'clientFileName',
+    label: 'Client File Name',
+    aliases: ['clientfilename', 'clientfile', 'filename', 'file'],
+    keywords: [['client', 'file']],
+    requiredFor: ['Fresh', 'QCed'],
+  },
+  {
+    key: 'dataStatus',
+    label: 'Data Status',
+    aliases: ['datastatus', 'makingstatus'],
+    keywords: [['data', 'status']],
+    requiredFor: ['QCed'],
+  },
+  {
+    key: 'makingDate',
+    label: 'Making Date',
+    aliases: ['makingdate', 'madeon'],
+    keywords: [['making', 'date']],
+    requiredFor: ['QCed'],
+  },
+  {
+    key: 'qcName',
+    label: 'QC Name',
+    aliases: ['qcname', 'qcby', 'reviewer', 'qcreviewer'],
+    keywords: [['qc', 'name']],
+    requiredFor: ['QCed'],
+  },
+  {
+    key: 'qcDate',
+    label: 'QC Date',
+    aliases: ['qcdate', 'reviewdate'],
+    keywords: [['qc', 'date']],
+    requiredFor: ['QCed'],
+  },
+  {
+    key: 'qcStatus',
+    label: 'QC Status',
+    aliases: ['qcstatus', 'qcresult', 'verdict'],
+    keywords: [['qc', 'status']],
+    requiredFor: ['QCed'],
+  },
+  {
+    key: 'rejectReason',
+    label: 'Reject Reason',
+    aliases: ['rejectreason', 'rejectionreason', 'reject'],
+    keywords: [['reject', 'reason'], ['rejection', 'reason']],
+    requiredFor: [],
+  },
+  {
+    key: 'rejectCategory',
+    label: 'Reject Category',
+    aliases: ['rejectcategory', 'rejectioncategory', 'errorcategory'],
+    keywords: [['reject', 'category'], ['error', 'category']],
+    requiredFor: [],
+  },
+  {
+    key: 'errorSeverity',
+    label: 'Error Severity',
+    aliases: ['errorseverity', 'severity'],
+    keywords: [['severity']],
+    requiredFor: [],
+  },
+  {
+    key: 'reworkDate',
+    label: 'Rework Date',
+    aliases: ['reworkdate'],
+    keywords: [['rework', 'date']],
+    requiredFor: [],
+  },
+  {
+    key: 'comment',
+    label: 'Comment',
+    aliases: ['comment', 'comments', 'remarks', 'notes'],
+    keywords: [['comment']],
+    requiredFor: [],
+  },
+  {
+    key: 'assignedTo',
+    label: 'Assigned To',
+    aliases: ['assignedto', 'assignee'],
+    keywords: [['assigned', 'to']],
+    requiredFor: [],
+  },
+  {
+    key: 'assignedDate',
+    label: 'Assigned Date',
+    aliases: ['assigneddate', 'assignedon'],
+    keywords: [['assigned', 'date']],
+    requiredFor: [],
+  },
+  {
+    key: 'assignedBy',
+    label: 'Assigned By',
+    aliases: ['assignedby'],
+    keywords: [['assigned', 'by']],
+    requiredFor: [],
+  },
+];
+
+// Maps each Job field to the header text of the column that feeds it
+export type ColumnMapping = Partial<Record<MappableField, string>>;
+
+export interface MappingProfile {
+  id: string;
+  name: string;
+  client: string;
+  headers: string[];
+  mapping: ColumnMapping;
+  updatedAt: string;
+}
+
+const PROFILES_STORAGE_KEY = 'annotation-insight.mappingProfiles';
+
+export function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function headerWords(header: string): string[] {
+  return header
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Proposes a header for each Job field. Exact alias matches are claimed
+ * first, then headers containing every keyword of a field; a header is
+ * never assigned to more than one field.
+ */
+export function proposeColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const claimed = new Set<string>();
+
+  JOB_FIELDS.forEach(field => {
+    const header = headers.find(h => !claimed.has(h) && field.aliases.includes(normalizeHeader(h)));
+    if (header) {
+      mapping[field.key] = header;
+      claimed.add(header);
+    }
+  });
+
+  JOB_FIELDS.forEach(field => {
+    if (mapping[field.key]) return;
+    const header = headers.find(h => {
+      if (claimed.has(h)) return false;
+      const words = headerWords(h);
+      return field.keywords.some(keywords => keywords.every(k => words.includes(k)));
+    });
+    if (header) {
+      mapping[field.key] = header;
+      claimed.add(header);
+    }
+  });
+
+  return mapping;
+}
+
+/** Resolves a mapping to column indexes, or -1 for unmapped fields. */
+export function resolveColumnIndexes(headers: string[], mapping: ColumnMapping): Record<MappableField, number> {
+  const normalized = headers.map(normalizeHeader);
+  return JOB_FIELDS.reduce((acc, field) => {
+    const header = mapping[field.key];
+    acc[field.key] = header ? normalized.indexOf(normalizeHeader(header)) : -1;
+    return acc;
+  }, {} as Record<MappableField, number>);
+}
+
+export function getMissingRequiredFields(mapping: ColumnMapping, type: 'Fresh' | 'QCed'): JobFieldDefinition[] {
+  return JOB_FIELDS.filter(field => field.requiredFor.includes(type) && !mapping[field.key]);
+}
+
+function headerSignature(headers: string[]): string {
+  return headers.map(normalizeHeader).filter(Boolean).sort().join('|');
+}
+
+export function loadMappingProfiles(): MappingProfile[] {
+  try {
+    const stored = localStorage.getItem(PROFILES_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+function storeMappingProfiles(profiles: MappingProfile[]) {
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+}
+
+/** Saves a profile, replacing any existing one with the same client and name. */
+export function saveMappingProfile(profile: Omit<MappingProfile, 'id' | 'updatedAt'>): MappingProfile[] {
+  const profiles = loadMappingProfiles();
+  const existing = profiles.find(p =>
+    p.client.toLowerCase() === profile.client.toLowerCase() && p.name.toLowerCase() === profile.name.toLowerCase()
+  );
+  const saved: MappingProfile = {
+    ...profile,
+    id: existing?.id || `profile_${Date.now()}`,
+    updatedAt: new Date().toISOString(),
+  };
+  const next = existing ? profiles.map(p => (p.id === existing.id ? saved : p)) : [...profiles, saved];
+  storeMappingProfiles(next);
+  return next;
+}
+
+export function deleteMappingProfile(id: string): MappingProfile[] {
+  const next = loadMappingProfiles().filter(p => p.id !== id);
+  storeMappingProfiles(next);
+  return next;
+}
+
+/** Finds the most recently saved profile built for exactly this header set. */
+export function findProfileForHeaders(profiles: MappingProfile[], headers: string[]): MappingProfile | undefined {
+  const signature = headerSignature(headers);
+  return profiles
+    .filter(p => headerSignature(p.headers) === signature)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+}
@@ -1,68 +1,297 @@
 import { Job } from "@/components/JobTable";
+import { normalizeJobDates } from "@/utils/dateUtils";
+import { JOB_FIELDS, normalizeHeader, proposeColumnMapping, resolveColumnIndexes } from "@/utils/columnMapping";
+import type { ColumnMapping, MappableField } from "@/utils/columnMapping";
+import { EXPORT_COLUMNS, unguardFormulaCell } from "@/utils/exportUtils";
+import type { CustomFieldDefinition } from "@/utils/customFields";
 
+export type CSVDelimiter = ',' | '\t' | ';' | '|';
+
+export type TextEncoding = 'utf-8' | 'utf-16le';
+
+export interface CSVTokenizer {
+  // Returns the records completed by this chunk
+  push(chunk: string): string[][];
+  // Returns the final record when the input did not end with a line break
+  flush(): string[][];
+}
+
+/**
+ * Incremental RFC 4180 tokenizer: quoted fields, escaped quotes (""),
+ * delimiters and line breaks inside quotes, CRLF/LF/CR endings and a leading
+ * UTF-8 BOM. Chunks may split a record, a quote pair or a CRLF anywhere.
+ */
+export function createCSVTokenizer(delimiter = ','): CSVTokenizer {
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // Just left a quoted section; a second quote here is an escaped quote
+  let afterQuote = false;
+  let skipLineFeed = false;
+  let started = false;
+
+  const endRow = (rows: string[][]) => {
+    row.push(field);
+    rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  return {
+    push(chunk: string) {
+      const rows: string[][] = [];
+      let text = chunk;
+      if (!started && text.length > 0) {
+        started = true;
+        if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+      }
+
+      for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (skipLineFeed) {
+          skipLineFeed = false;
+          if (char === '\n') continue;
+        }
+
+        if (inQuotes) {
+          if (char === '"') {
+            inQuotes = false;
+            afterQuote = true;
+          } else {
+            field += char;
+          }
+          continue;
+        }
+
+        if (afterQuote) {
+          afterQuote = false;
+          if (char === '"') {
+            field += '"';
+            inQuotes = true;
+            continue;
+          }
+        }
+
+        if (char === '"' && field === '') {
+          inQuotes = true;
+        } else if (char === delimiter) {
+          row.push(field);
+          field = '';
+        } else if (char === '\n' || char === '\r') {
+          skipLineFeed = char === '\r';
+          endRow(rows);
+        } else {
+          field += char;
+        }
+      }
+
+      return rows;
+    },
+
+    flush() {
+      const rows: string[][] = [];
+      if (field !== '' || row.length > 0 || afterQuote) endRow(rows);
+      afterQuote = false;
+      inQuotes = false;
+      return rows;
+    },
+  };
+}
+
+/** Tokenizes a complete CSV document. Every import path goes through this instead of splitting lines. */
+export function parseCSVRows(csvContent: string, delimiter = ','): string[][] {
+  const tokenizer = createCSVTokenizer(delimiter);
+  return [...tokenizer.push(csvContent), ...tokenizer.flush()];
+}
+
+// Enough for the header and sample rows the mapping step needs
+const HEAD_BYTES = 256 * 1024;
+
+/** UTF-16 LE files start with an FF FE byte order mark; anything else is read as UTF-8. */
+export function detectTextEncoding(head: Uint8Array): TextEncoding {
+  return head[0] === 0xff && head[1] === 0xfe ? 'utf-16le' : 'utf-8';
+}
+
+/**
+ * Tokenizes only the start of a file, in its detected encoding and delimiter.
+ * The last row is dropped when it may have been cut off.
+ */
+export async function readCSVHead(file: File): Promise<string[][]> {
+  const bytes = new Uint8Array(await file.slice(0, HEAD_BYTES).arrayBuffer());
+  const text = new TextDecoder(detectTextEncoding(bytes)).decode(bytes);
+  const rows = parseCSVRows(text, detectDelimiter(text));
+  return file.size > HEAD_BYTES ? rows.slice(0, -1) : rows;
+}
+
+export function isBlankRow(row: string[]): boolean {
+  return row.every(cell => cell.trim() === '');
+}
+
+/** Quotes a cell only when needed, doubling embedded quotes. */
+export function escapeCSVCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function rowsToCSV(rows: string[][]): string {
+  return rows.map(row => row.map(escapeCSVCell).join(',')).join('\r\n');
+}
+
+export type ImportLayout = 'report' | 'app-export' | 'generic';
+
+export const IMPORT_LAYOUT_LABELS: Record<ImportLayout, string> = {
+  report: 'QC report with summary lines',
+  'app-export': 'Export from this app',
+  generic: 'Header row first',
+};
+
+export interface LayoutDetection {
+  layout: ImportLayout;
+  // Index into the records the layout was detected from
+  headerIndex: number;
+  headers: string[];
+  mapping: ColumnMapping;
+  // Leading columns that belong to the job table; reports keep side tables to the right
+  columnCount: number;
+  // An app export written with the formula guard; its cells are unguarded on import
+  formulaGuard?: boolean;
+}
+
+// Report summaries take a line or two; anything deeper is not a header
+const MAX_HEADER_SEARCH = 10;
+
+/**
+ * Finds the header row and proposes a mapping. The header is the first row
+ * with a recognizable Job ID column; rows above it make the file a report.
+ * A header made only of our export labels is the app's own export layout;
+ * registered custom field labels count too, since exports append them.
+ */
+export function detectImportLayout(records: string[][], customFields: CustomFieldDefinition[] = []): LayoutDetection {
+  const candidates = records
+    .slice(0, MAX_HEADER_SEARCH)
+    .map((row, index) => ({ headers: row.map(cell => cell.trim()), index }))
+    .filter(({ headers }) => headers.some(Boolean));
+  const header = candidates.find(({ headers }) => proposeColumnMapping(headers).jid) || candidates[0];
+
+  if (!header) return { layout: 'generic', headerIndex: 0, headers: [], mapping: {}, columnCount: 0 };
+
+  if (header !== candidates[0]) {
+    // Legacy reports label their trailing columns on the summary line instead of the header
+    const headers = header.headers.map((text, column) => text || records
+      .slice(0, header.index)
+      .map(row => (row[column] || '').trim())
+      .filter(Boolean)
+      .pop() || '');
+    // The report's side tables start after a blank column
+    const gap = headers.findIndex(text => !text);
+    return {
+      layout: 'report',
+      headerIndex: header.index,
+      headers,
+      mapping: proposeColumnMapping(headers),
+      columnCount: gap < 0 ? headers.length : gap,
+    };
+  }
+
+  const exportLabels = new Set([...EXPORT_COLUMNS, ...customFields].map(column => normalizeHeader(column.label)));
+  const isExport = header.headers.filter(Boolean).every(h => exportLabels.has(normalizeHeader(h)));
+  // Guarded exports put one more quote on the first header than the guard itself does
+  const formulaGuard = isExport && header.headers[0].startsWith("'");
+  const headers = formulaGuard
+    ? [header.headers[0].slice(1), ...header.headers.slice(1)].map(unguardFormulaCell)
+    : header.headers;
+  return {
+    layout: isExport ? 'app-export' : 'generic',
+    headerIndex: header.index,
+    headers,
+    mapping: proposeColumnMapping(headers),
+    columnCount: headers.length,
+    formulaGuard,
+  };
+}
+
+const SEPARATORS: CSVDelimiter[] = [',', ';', '|'];
+
+/**
+ * Spreadsheet copies and TSV exports are tab separated; otherwise the most
+ * frequent of comma, semicolon and pipe wins, comma on a tie. Only the first
+ * line is checked, since later cells may contain any of them.
+ */
+export function detectDelimiter(text: string): CSVDelimiter {
+  const firstLine = text.split(/\r\n|\n|\r/).find(line => line.trim() !== '') || '';
+  if (firstLine.includes('\t')) return '\t';
+  const count = (separator: string) => firstLine.split(separator).length - 1;
+  return SEPARATORS.reduce((best, separator) => count(separator) > count(best) ? separator : best);
+}
+
+/**
+ * Whether any of the leading records names a known column exactly. Pasted
+ * ranges often start at the first data row instead.
+ */
+export function hasHeaderRow(records: string[][]): boolean {
+  const known = new Set([
+    ...JOB_FIELDS.flatMap(field => field.aliases),
+    ...EXPORT_COLUMNS.map(column => normalizeHeader(column.label)),
+  ]);
+  return records
+    .slice(0, MAX_HEADER_SEARCH)
+    .some(row => row.some(cell => known.has(normalizeHeader(cell))));
+}
+
+export interface PastedRows {
+  rows: string[][];
+  delimiter: CSVDelimiter;
+  // True when the paste had no header and columns were numbered instead
+  generatedHeader: boolean;
+}
+
+/** Tokenizes pasted text, numbering the columns when no header row is found. */
+export function parsePastedRows(text: string): PastedRows {
+  const delimiter = detectDelimiter(text);
+  const rows = parseCSVRows(text, delimiter).filter(row => !isBlankRow(row));
+  if (rows.length === 0 || hasHeaderRow(rows)) return { rows, delimiter, generatedHeader: false };
+
+  const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const header = Array.from({ length: width }, (_, i) => `Column ${i + 1}`);
+  return { rows: [header, ...rows], delimiter, generatedHeader: true };
+}
+
+/** Reads jobs from any supported layout without validation. Rows without a Job ID are skipped. */
 export function parseCSVToJobs(csvContent: string): Job[] {
-  const lines = csvContent.trim().split('\n');
+  const rows = parseCSVRows(csvContent);
+  const { headerIndex, headers, mapping } = detectImportLayout(rows);
+  const index = resolveColumnIndexes(headers, mapping);
   const jobs: Job[] = [];
   
-  // Skip the first 2 lines (summary data) and start from actual job data
-  for (let i = 2; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
+  for (let i = headerIndex + 1; i < rows.length; i++) {
+    if (isBlankRow(rows[i])) continue;
+    
+    const columns = rows[i].map(col => col.trim());
+    const cell = (field: MappableField) => index[field] >= 0 ? columns[index[field]] || '' : '';
+    if (!cell('jid')) continue;
     
-    const columns = line.split(',');
-    if (columns.length >= 8 && columns[0].startsWith('jid_')) {
-      const job: Job = {
-        jid: columns[0] || '',
-        refId: columns[1] || '',
-        clientFileName: columns[2] || '',
-        dataStatus: columns[3] || '',
-        makingDate: columns[4] || '',
-        qcName: columns[5] || '',
-        qcDate: columns[6] || '',
-        qcStatus: columns[7] || '',
-        rejectReason: columns[8] || '',
-        reworkDate: columns[9] || '',
-        comment: columns[10] || '',
-      };
-      jobs.push(job);
-    }
+    const job: Job = {
+      jid: cell('jid'),
+      refId: cell('refId'),
+      clientFileName: cell('clientFileName'),
+      dataStatus: cell('dataStatus'),
+      makingDate: cell('makingDate'),
+      qcName: cell('qcName'),
+      qcDate: cell('qcDate'),
+      qcStatus: cell('qcStatus'),
+      rejectReason: cell('rejectReason'),
+      rejectCategory: cell('rejectCategory') || undefined,
+      errorSeverity: cell('errorSeverity') || undefined,
+      reworkDate: cell('reworkDate'),
+      comment: cell('comment'),
+      assignedTo: cell('assignedTo') || undefined,
+      assignedDate: cell('assignedDate') || undefined,
+      assignedBy: cell('assignedBy') || undefined,
+    };
+    jobs.push(job);
   }
   
-  return jobs;
-}
-
-export function jobsToCSV(jobs: Job[]): string {
-  const headers = [
-    'JID',
-    'Ref ID', 
-    'Client File Name',
-    'Data Status',
-    'Making Date',
-    'QC Name',
-    'QC Date', 
-    'QC Status',
-    'Reject Reason',
-    'Rework Date',
-    'Comment'
-  ];
-  
-  const rows = jobs.map(job => [
-    job.jid,
-    job.refId,
-    job.clientFileName,
-    job.dataStatus,
-    job.makingDate,
-    job.qcName,
-    job.qcDate,
-    job.qcStatus,
-    job.rejectReason || '',
-    job.reworkDate || '',
-    job.comment || ''
-  ]);
-  
-  return [headers, ...rows].map(row => 
-    row.map(cell => `"${cell}"`).join(',')
-  ).join('\n');
+  return normalizeJobDates(jobs).jobs;
 }
 
 export function downloadCSV(content: string, filename: string) {
@@ -0,0 +1,209 @@
+import type { Job } from "@/components/JobTable";
+import { normalizeHeader } from "@/utils/columnMapping";
+import type { ColumnMapping } from "@/utils/columnMapping";
+import { detectDateFormat, parseDate } from "@/utils/dateUtils";
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'enum';
+
+// Numbers are stored as numbers and dates as YYYY-MM-DD; text and enum values stay strings
+export type CustomFieldValue = string | number;
+
+export interface CustomFieldDefinition {
+  // Normalized header, so "Site Code" and "site_code" land in the same field
+  key: string;
+  // Header text the field was first imported with; also the export header
+  label: string;
+  type: CustomFieldType;
+  // Known values of an enum field, in first-seen order
+  options?: string[];
+}
+
+export const CUSTOM_FIELD_TYPES: { value: CustomFieldType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'date', label: 'Date' },
+  { value: 'enum', label: 'List' },
+];
+
+// Column keys for custom fields wherever they sit next to the fixed Job fields
+export type CustomFieldColumn = `custom:${string}`;
+
+export const customFieldColumn = (key: string): CustomFieldColumn => `custom:${key}`;
+
+export function customFieldKeyOf(column: string): string | null {
+  return column.startsWith('custom:') ? column.slice('custom:'.length) : null;
+}
+
+// Columns that are recognized but not job data when left unmapped, e.g. a Batch ID the import should not keep
+const IGNORED_HEADERS = new Set(['batchid']);
+
+export interface CustomColumn {
+  key: string;
+  label: string;
+  index: number;
+}
+
+/**
+ * Every named column the mapping does not use. The first occurrence wins when
+ * two headers normalize to the same key.
+ */
+export function findCustomColumns(headers: string[], mapping: ColumnMapping, columnCount = headers.length): CustomColumn[] {
+  const mapped = new Set(Object.values(mapping).filter(Boolean));
+  const seen = new Set<string>();
+  const columns: CustomColumn[] = [];
+
+  headers.slice(0, columnCount).forEach((header, index) => {
+    const key = normalizeHeader(header);
+    if (!key || mapped.has(header) || IGNORED_HEADERS.has(key) || seen.has(key)) return;
+    seen.add(key);
+    columns.push({ key, label: header.trim(), index });
+  });
+
+  return columns;
+}
+
+const NUMBER = /^[+-]?(\d+(\.\d*)?|\.\d+)$/;
+// A handful of repeated values reads as a list, not free text
+const MAX_ENUM_OPTIONS = 12;
+const MIN_ENUM_SAMPLES = 4;
+
+const parseNumber = (value: string) => NUMBER.test(value.replace(/,/g, '')) ? Number(value.replace(/,/g, '')) : null;
+
+function distinct(values: string[]): string[] {
+  return [...new Set(values)];
+}
+
+/** Guesses a field type from every non-empty value in a column. */
+export function inferCustomFieldType(values: string[]): Pick<CustomFieldDefinition, 'type' | 'options'> {
+  const samples = values.map(v => v.trim()).filter(Boolean);
+  if (samples.length === 0) return { type: 'text' };
+
+  if (samples.every(v => parseNumber(v) !== null)) return { type: 'number' };
+
+  const { format } = detectDateFormat(samples);
+  if (format && samples.every(v => parseDate(v, format))) return { type: 'date' };
+
+  const options = distinct(samples);
+  if (samples.length >= MIN_ENUM_SAMPLES && options.length <= MAX_ENUM_OPTIONS && options.length * 2 <= samples.length) {
+    return { type: 'enum', options };
+  }
+  return { type: 'text' };
+}
+
+/**
+ * Converts a cell to the field's type. Returns the trimmed text when it does
+ * not fit, so nothing from the file is lost; validation flags those cells.
+ */
+export function coerceCustomValue(value: string, definition: CustomFieldDefinition, dateFormat?: ReturnType<typeof detectDateFormat>['format']): CustomFieldValue {
+  const text = value.trim();
+  switch (definition.type) {
+    case 'number':
+      return parseNumber(text) ?? text;
+    case 'date':
+      return parseDate(text, dateFormat || 'YYYY-MM-DD') ?? text;
+    default:
+      return text;
+  }
+}
+
+export function isCustomValueValid(value: CustomFieldValue, definition: CustomFieldDefinition): boolean {
+  switch (definition.type) {
+    case 'number':
+      return typeof value === 'number';
+    case 'date':
+      return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+    default:
+      return true;
+  }
+}
+
+export interface CustomFieldExtraction {
+  // One map per row, in row order; empty cells are left out
+  values: Record<string, CustomFieldValue>[];
+  // Definitions for this file's custom columns: registry entries where known, inferred otherwise
+  definitions: CustomFieldDefinition[];
+}
+
+/**
+ * Reads the custom columns of every row and types them. Fields already in the
+ * registry keep their type; new ones are inferred from the whole column.
+ */
+export function extractCustomFields(
+  rows: string[][],
+  columns: CustomColumn[],
+  registry: CustomFieldDefinition[] = []
+): CustomFieldExtraction {
+  const registryByKey = new Map(registry.map(field => [field.key, field]));
+
+  const typed = columns.map(column => {
+    const cells = rows.map(cells => (cells[column.index] || '').trim());
+    const known = registryByKey.get(column.key);
+    let definition: CustomFieldDefinition = known || { key: column.key, label: column.label, ...inferCustomFieldType(cells) };
+    if (known?.type === 'enum') {
+      definition = { ...known, options: distinct([...(known.options || []), ...cells.filter(Boolean)]) };
+    }
+    const dateFormat = definition.type === 'date' ? detectDateFormat(cells).format : null;
+    return { column, cells, definition, dateFormat };
+  });
+
+  const values = rows.map((_, rowIndex) => {
+    const fields: Record<string, CustomFieldValue> = {};
+    typed.forEach(({ column, cells, definition, dateFormat }) => {
+      if (cells[rowIndex]) fields[column.key] = coerceCustomValue(cells[rowIndex], definition, dateFormat);
+    });
+    return fields;
+  });
+
+  return { values, definitions: typed.map(({ definition }) => definition) };
+}
+
+/**
+ * Adds new fields to the workspace registry and grows enum options. Existing
+ * field types never change on import.
+ */
+export function mergeCustomFields(registry: CustomFieldDefinition[], incoming: CustomFieldDefinition[]): CustomFieldDefinition[] {
+  const incomingByKey = new Map(incoming.map(field => [field.key, field]));
+  const merged = registry.map(field => {
+    const update = incomingByKey.get(field.key);
+    if (!update || field.type !== 'enum') return field;
+    return { ...field, options: distinct([...(field.options || []), ...(update.options || [])]) };
+  });
+  const known = new Set(registry.map(field => field.key));
+  return [...merged, ...incoming.filter(field => !known.has(field.key))];
+}
+
+/** Display text for a custom value; the empty string when the job has none. */
+export function formatCustomValue(job: Job, key: string): string {
+  const value = job.customFields?.[key];
+  return value === undefined || value === null ? '' : String(value);
+}
+
+const COMPARISON = /^(>=|<=|>|<|=)\s*(.+)$/;
+
+/**
+ * Filters a job by one custom field. Enums match exactly, text matches a
+ * substring; numbers and dates also accept a leading >, >=, <, <= or =.
+ */
+export function matchesCustomFilter(job: Job, field: CustomFieldDefinition, query: string): boolean {
+  const trimmed = query.trim();
+  if (!trimmed) return true;
+  const value = job.customFields?.[field.key];
+  if (value === undefined) return false;
+
+  if (field.type === 'enum') return String(value) === trimmed;
+  if (field.type === 'text') return String(value).toLowerCase().includes(trimmed.toLowerCase());
+
+  const [, operator = '=', operand = trimmed] = trimmed.match(COMPARISON) || [];
+  const target: CustomFieldValue | null = field.type === 'number'
+    ? parseNumber(operand.trim())
+    : parseDate(operand.trim(), 'YYYY-MM-DD');
+  if (target === null || typeof value !== typeof target) return false;
+
+  switch (operator) {
+    case '>': return value > target;
+    case '>=': return value >= target;
+    case '<': return value < target;
+    case '<=': return value <= target;
+    default: return value === target;
+  }
+}
@@ -0,0 +1,134 @@
+import type { Job } from "@/components/JobTable";
+
+export type DateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY';
+
+export const DATE_FORMATS: DateFormat[] = ['DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD'];
+
+export type DateColumn = 'makingDate' | 'qcDate' | 'reworkDate';
+
+export const DATE_COLUMNS: { key: DateColumn; isoKey: 'makingDateISO' | 'qcDateISO' | 'reworkDateISO'; label: string }[] = [
+  { key: 'makingDate', isoKey: 'makingDateISO', label: 'Making Date' },
+  { key: 'qcDate', isoKey: 'qcDateISO', label: 'QC Date' },
+  { key: 'reworkDate', isoKey: 'reworkDateISO', label: 'Rework Date' },
+];
+
+export type DateFormatOverrides = Partial<Record<DateColumn, DateFormat>>;
+
+export interface DateFormatDetection {
+  format: DateFormat | null;
+  // True when every value fits more than one format and the choice was inferred
+  ambiguous: boolean;
+  sampleSize: number;
+}
+
+export interface UnresolvedDate {
+  index: number;
+  column: DateColumn;
+  value: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function toISODate(year: number, month: number, day: number): string | null {
+  if (year < 100) year += 2000;
+  if (month < 1 || month > 12 || day < 1) return null;
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (day > daysInMonth) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Parses a date cell in the given format and returns it as YYYY-MM-DD, or
+ * null when it is not a real calendar date. ISO input is always accepted.
+ */
+export function parseDate(value: string, format: DateFormat): string | null {
+  const trimmed = value.trim().split(/[T\s]/)[0];
+  const match = trimmed.match(/^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})$/);
+  if (!match) return null;
+
+  const [a, b, c] = match.slice(1).map(part => parseInt(part, 10));
+  if (match[1].length === 4) return toISODate(a, b, c);
+
+  switch (format) {
+    case 'MM/DD/YYYY':
+      return toISODate(c, a, b);
+    case 'DD/MM/YYYY':
+      return toISODate(c, b, a);
+    default:
+      return null;
+  }
+}
+
+function spanInDays(isoDates: string[]): number {
+  const times = isoDates.map(date => Date.parse(date));
+  return (Math.max(...times) - Math.min(...times)) / DAY_MS;
+}
+
+/**
+ * Picks the format that resolves the most values in a column. When every
+ * value fits both day-first and month-first (e.g. 09/09/2025), the reading
+ * that keeps the column within the narrowest date range wins.
+ */
+export function detectDateFormat(values: string[]): DateFormatDetection {
+  const samples = values.map(v => v.trim()).filter(Boolean);
+  if (samples.length === 0) return { format: null, ambiguous: false, sampleSize: 0 };
+
+  const candidates = DATE_FORMATS.map(format => {
+    const parsed = samples.map(v => parseDate(v, format)).filter((d): d is string => d !== null);
+    return { format, parsed };
+  });
+
+  const best = Math.max(...candidates.map(c => c.parsed.length));
+  if (best === 0) return { format: null, ambiguous: false, sampleSize: samples.length };
+
+  const leaders = candidates.filter(c => c.parsed.length === best);
+  const isoOnly = samples.every(v => /^\d{4}[/.-]/.test(v));
+  if (isoOnly) return { format: 'YYYY-MM-DD', ambiguous: false, sampleSize: samples.length };
+
+  const dayMonth = leaders.filter(c => c.format !== 'YYYY-MM-DD');
+  if (dayMonth.length === 1) {
+    return { format: dayMonth[0].format, ambiguous: false, sampleSize: samples.length };
+  }
+
+  const [narrowest] = [...dayMonth].sort((x, y) => spanInDays(x.parsed) - spanInDays(y.parsed));
+  return { format: narrowest.format, ambiguous: true, sampleSize: samples.length };
+}
+
+/**
+ * Detects each date column's format across all jobs (unless overridden) and
+ * fills the ISO fields next to the original text. Values that cannot be
+ * resolved are reported by their index in `jobs`.
+ */
+export function normalizeJobDates(jobs: Job[], overrides: DateFormatOverrides = {}) {
+  const formats = {} as Record<DateColumn, DateFormatDetection>;
+  const unresolved: UnresolvedDate[] = [];
+
+  DATE_COLUMNS.forEach(({ key }) => {
+    const detection = detectDateFormat(jobs.map(job => job[key] || ''));
+    formats[key] = overrides[key]
+      ? { ...detection, format: overrides[key]!, ambiguous: false }
+      : detection;
+  });
+
+  const normalizedJobs = jobs.map((job, index) => {
+    const normalized = { ...job };
+    DATE_COLUMNS.forEach(({ key, isoKey }) => {
+      const value = job[key]?.trim();
+      if (!value) return;
+      const format = formats[key].format;
+      const iso = format ? parseDate(value, format) : null;
+      if (iso) {
+        normalized[isoKey] = iso;
+      } else {
+        unresolved.push({ index, column: key, value });
+      }
+    });
+    return normalized;
+  });
+
+  return { jobs: normalizedJobs, formats, unresolved };
+}
@@ -0,0 +1,342 @@
+import type { Job } from "@/components/JobTable";
+import type { BatchInfo } from "@/components/CSVImportModal";
+import { DATE_COLUMNS } from "@/utils/dateUtils";
+import { writeXLSX } from "@/utils/xlsxUtils";
+import type { XLSXCellValue, XLSXSheet } from "@/utils/xlsxUtils";
+import { customFieldColumn, customFieldKeyOf, formatCustomValue } from "@/utils/customFields";
+import type { CustomFieldColumn, CustomFieldDefinition } from "@/utils/customFields";
+
+export type ExportFormat = 'csv' | 'tsv' | 'json' | 'xlsx';
+
+export type ExportEncoding = 'utf-8' | 'utf-8-bom' | 'utf-16le';
+
+export type JobColumnKey =
+  | 'jid'
+  | 'refId'
+  | 'clientFileName'
+  | 'dataStatus'
+  | 'makingDate'
+  | 'qcName'
+  | 'qcDate'
+  | 'qcStatus'
+  | 'rejectReason'
+  | 'rejectCategory'
+  | 'errorSeverity'
+  | 'reworkDate'
+  | 'comment'
+  | 'batchId'
+  | 'assignedTo'
+  | 'assignedDate'
+  | 'assignedBy';
+
+export type ExportColumnKey = JobColumnKey | CustomFieldColumn;
+
+export interface ExportColumn {
+  key: JobColumnKey;
+  label: string;
+}
+
+// Labels double as the header row, so keep them in step with the import aliases
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'jid', label: 'JID' },
+  { key: 'refId', label: 'Ref ID' },
+  { key: 'clientFileName', label: 'Client File Name' },
+  { key: 'dataStatus', label: 'Data Status' },
+  { key: 'makingDate', label: 'Making Date' },
+  { key: 'qcName', label: 'QC Name' },
+  { key: 'qcDate', label: 'QC Date' },
+  { key: 'qcStatus', label: 'QC Status' },
+  { key: 'rejectReason', label: 'Reject Reason' },
+  { key: 'rejectCategory', label: 'Reject Category' },
+  { key: 'errorSeverity', label: 'Error Severity' },
+  { key: 'reworkDate', label: 'Rework Date' },
+  { key: 'comment', label: 'Comment' },
+  { key: 'batchId', label: 'Batch ID' },
+  { key: 'assignedTo', label: 'Assigned To' },
+  { key: 'assignedDate', label: 'Assigned Date' },
+  { key: 'assignedBy', label: 'Assigned By' },
+];
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { value: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  { value: 'tsv', label: 'TSV (tab separated)', extension: 'tsv', mimeType: 'text/tab-separated-values' },
+  { value: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  {
+    value: 'xlsx',
+    label: 'Excel workbook (summary + sheet per batch)',
+    extension: 'xlsx',
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  },
+];
+
+export const CSV_DELIMITERS: { value: string; label: string }[] = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '|', label: 'Pipe (|)' },
+];
+
+export const EXPORT_ENCODINGS: { value: ExportEncoding; label: string }[] = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'utf-8-bom', label: 'UTF-8 with BOM (Excel)' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+];
+
+export interface ExportOptions {
+  // Selected columns in output order
+  columns: ExportColumnKey[];
+  format: ExportFormat;
+  // Only used for CSV; TSV always uses a tab
+  delimiter: string;
+  // Text formats only; workbooks are always UTF-8 inside
+  encoding: ExportEncoding;
+  // Neutralize cells that spreadsheets would evaluate as formulas; CSV and TSV only
+  guardFormulas: boolean;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  columns: EXPORT_COLUMNS.map(column => column.key),
+  format: 'csv',
+  delimiter: ',',
+  encoding: 'utf-8',
+  guardFormulas: true,
+};
+
+const FORMULA_PREFIX = /^[=+\-@\t\r']/;
+const PLAIN_NUMBER = /^[+-]?\d+(\.\d+)?$/;
+
+/**
+ * Prefixes a quote to cells Excel would run as formulas. Plain signed numbers
+ * are left alone so negative values still export as numbers; text already
+ * starting with a quote gets one more, so the guard can be undone exactly.
+ */
+export function guardFormulaCell(value: string): string {
+  return FORMULA_PREFIX.test(value) && !PLAIN_NUMBER.test(value) ? `'${value}` : value;
+}
+
+/** Undoes guardFormulaCell, so guarded exports import with their original values. */
+export function unguardFormulaCell(value: string): string {
+  return value.startsWith("'") && guardFormulaCell(value.slice(1)) === value ? value.slice(1) : value;
+}
+
+/** Quotes a cell only when it contains the delimiter, a quote or a line break. */
+export function escapeDelimitedCell(value: string, delimiter: string): string {
+  const needsQuotes = value.includes(delimiter) || /["\r\n]/.test(value);
+  return needsQuotes ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** Fixed columns followed by one column per registered custom field. */
+export function exportColumnsFor(customFields: CustomFieldDefinition[] = []): { key: ExportColumnKey; label: string }[] {
+  return [
+    ...EXPORT_COLUMNS,
+    ...customFields.map(field => ({ key: customFieldColumn(field.key), label: field.label })),
+  ];
+}
+
+export function exportColumnLabel(key: ExportColumnKey, customFields: CustomFieldDefinition[] = []): string {
+  return exportColumnsFor(customFields).find(column => column.key === key)?.label || customFieldKeyOf(key) || key;
+}
+
+function jobCellText(job: Job, key: ExportColumnKey): string {
+  const customKey = customFieldKeyOf(key);
+  return customKey ? formatCustomValue(job, customKey) : job[key as JobColumnKey] || '';
+}
+
+export function jobsToRows(jobs: Job[], columns: ExportColumnKey[], customFields: CustomFieldDefinition[] = []): string[][] {
+  return [
+    columns.map(key => exportColumnLabel(key, customFields)),
+    ...jobs.map(job => columns.map(key => jobCellText(job, key))),
+  ];
+}
+
+export function formatJobsForExport(jobs: Job[], options: ExportOptions, customFields: CustomFieldDefinition[] = []): string {
+  if (options.format === 'json') {
+    // Custom fields keep their types and nest under their registry keys
+    const records = jobs.map(job => {
+      const record: Record<string, unknown> = {};
+      const custom: Record<string, unknown> = {};
+      options.columns.forEach(key => {
+        const customKey = customFieldKeyOf(key);
+        if (customKey) {
+          custom[customKey] = job.customFields?.[customKey] ?? null;
+        } else {
+          record[key] = jobCellText(job, key);
+        }
+      });
+      return Object.keys(custom).length > 0 ? { ...record, customFields: custom } : record;
+    });
+    return JSON.stringify(records, null, 2);
+  }
+
+  const delimiter = options.format === 'tsv' ? '\t' : options.delimiter;
+  const rows = jobsToRows(jobs, options.columns, customFields);
+  const cells = options.guardFormulas ? rows.map(row => row.map(guardFormulaCell)) : rows;
+  // One more quote on the first header marks the file as guarded, so import only unguards such files
+  if (options.guardFormulas && cells[0].length > 0) cells[0][0] = `'${cells[0][0]}`;
+  return cells
+    .map(row => row.map(cell => escapeDelimitedCell(cell, delimiter)).join(delimiter))
+    .join('\r\n');
+}
+
+/**
+ * Turns a JSON export back into rows under the export labels, so it imports
+ * like the CSV export. Custom fields become columns named by their registry
+ * label, or their key when the field is not registered.
+ */
+export function jsonExportToRows(content: string, customFields: CustomFieldDefinition[] = []): string[][] {
+  const records: unknown = JSON.parse(content);
+  if (!Array.isArray(records)) throw new Error('Expected an array of jobs');
+
+  const jobKeys = new Set<string>(EXPORT_COLUMNS.map(column => column.key));
+  const columns: ExportColumnKey[] = [];
+  records.forEach((record: Record<string, unknown>) => {
+    Object.keys(record || {}).forEach(key => {
+      if (jobKeys.has(key) && !columns.includes(key as JobColumnKey)) columns.push(key as JobColumnKey);
+    });
+    Object.keys(record?.customFields || {}).forEach(key => {
+      if (!columns.includes(customFieldColumn(key))) columns.push(customFieldColumn(key));
+    });
+  });
+
+  const text = (value: unknown) => value === null || value === undefined ? '' : String(value);
+  return [
+    columns.map(key => exportColumnLabel(key, customFields)),
+    ...records.map((record: Record<string, unknown>) => columns.map(key => {
+      const customKey = customFieldKeyOf(key);
+      return text(customKey ? (record?.customFields as Record<string, unknown>)?.[customKey] : record?.[key]);
+    })),
+  ];
+}
+
+function encodeContent(content: string, encoding: ExportEncoding): BlobPart[] {
+  switch (encoding) {
+    case 'utf-8-bom':
+      return ['\uFEFF', content];
+    case 'utf-16le': {
+      const bytes = new Uint8Array(2 + content.length * 2);
+      bytes[0] = 0xff;
+      bytes[1] = 0xfe;
+      for (let i = 0; i < content.length; i++) {
+        const code = content.charCodeAt(i);
+        bytes[2 + i * 2] = code & 0xff;
+        bytes[3 + i * 2] = code >> 8;
+      }
+      return [bytes];
+    }
+    default:
+      return [content];
+  }
+}
+
+const ISO_DATE_KEYS = new Map(DATE_COLUMNS.map(column => [column.key as string, column.isoKey]));
+
+/** Typed cell for a workbook: normalized dates become date cells, the rest stays text. */
+function jobCellValue(job: Job, key: ExportColumnKey, customFields: CustomFieldDefinition[]): XLSXCellValue {
+  const customKey = customFieldKeyOf(key);
+  if (customKey) {
+    const value = job.customFields?.[customKey];
+    const field = customFields.find(f => f.key === customKey);
+    if (typeof value === 'number') return value;
+    if (field?.type === 'date' && /^\d{4}-\d{2}-\d{2}$/.test(value || '')) return new Date(`${value}T00:00:00Z`);
+    return value ?? '';
+  }
+  const isoKey = ISO_DATE_KEYS.get(key);
+  if (isoKey && job[isoKey]) return new Date(`${job[isoKey]}T00:00:00Z`);
+  if (key === 'assignedDate' && job.assignedDate && !isNaN(Date.parse(job.assignedDate))) {
+    return new Date(job.assignedDate);
+  }
+  return job[key as JobColumnKey] || '';
+}
+
+const SUMMARY_HEADER = [
+  'Batch ID', 'Batch Name', 'Type', 'Uploaded', 'Uploaded By',
+  'Jobs', 'Accepted', 'Rejected', 'Output Not Found', 'Not Started'
+];
+
+/**
+ * Builds a workbook with a summary sheet and one job sheet per batch, in the
+ * batch list order. Jobs outside any known batch get their own sheet.
+ */
+export function buildJobsWorkbook(
+  jobs: Job[],
+  batches: BatchInfo[],
+  columns: ExportColumnKey[],
+  customFields: CustomFieldDefinition[] = []
+): Uint8Array {
+  const jobsByBatch = new Map<string, Job[]>();
+  jobs.forEach(job => {
+    const key = job.batchId || '';
+    jobsByBatch.set(key, [...(jobsByBatch.get(key) || []), job]);
+  });
+
+  const knownIds = new Set(batches.map(batch => batch.id));
+  const groups: { id: string; name: string; batch?: BatchInfo; jobs: Job[] }[] = [
+    ...batches
+      .filter(batch => jobsByBatch.has(batch.id))
+      .map(batch => ({ id: batch.id, name: batch.name || batch.id, batch, jobs: jobsByBatch.get(batch.id) })),
+    ...[...jobsByBatch.keys()]
+      .filter(id => !knownIds.has(id))
+      .map(id => ({ id, name: id || 'Unbatched', jobs: jobsByBatch.get(id) })),
+  ];
+
+  const countStatus = (list: Job[], status: string) => list.filter(job => job.qcStatus === status).length;
+  const summaryRows: XLSXCellValue[][] = groups.map(({ id, name, batch, jobs: list }) => [
+    id,
+    name,
+    batch?.type || '',
+    batch && !isNaN(Date.parse(batch.uploadDate)) ? new Date(batch.uploadDate) : '',
+    batch?.uploadedBy || '',
+    list.length,
+    countStatus(list, 'Accepted'),
+    countStatus(list, 'Rejected'),
+    countStatus(list, 'Output Not Found'),
+    countStatus(list, 'Not Started'),
+  ]);
+  const totalRow: XLSXCellValue[] = [
+    'Total', '', '', '', '',
+    ...[5, 6, 7, 8, 9].map(column => summaryRows.reduce((sum, row) => sum + (row[column] as number), 0)),
+  ];
+
+  const sheets: XLSXSheet[] = [
+    { name: 'Summary', rows: [SUMMARY_HEADER, ...summaryRows, totalRow] },
+    ...groups.map(({ name, jobs: list }) => ({
+      name,
+      rows: [
+        columns.map(key => exportColumnLabel(key, customFields)),
+        ...list.map(job => columns.map(key => jobCellValue(job, key, customFields))),
+      ],
+    })),
+  ];
+
+  return writeXLSX(sheets);
+}
+
+export function exportFileName(baseName: string, format: ExportFormat): string {
+  const extension = EXPORT_FORMATS.find(f => f.value === format)?.extension || format;
+  return `${baseName}.${extension}`;
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+export function downloadExport(content: string, baseName: string, options: ExportOptions) {
+  const { mimeType } = EXPORT_FORMATS.find(f => f.value === options.format) || EXPORT_FORMATS[0];
+  const charset = options.encoding === 'utf-16le' ? 'utf-16le' : 'utf-8';
+  const blob = new Blob(encodeContent(content, options.encoding), { type: `${mimeType};charset=${charset}` });
+  downloadBlob(blob, exportFileName(baseName, options.format));
+}
+
+export function downloadWorkbook(workbook: Uint8Array, baseName: string) {
+  const { mimeType } = EXPORT_FORMATS.find(f => f.value === 'xlsx')!;
+  downloadBlob(new Blob([workbook], { type: mimeType }), exportFileName(baseName, 'xlsx'));
+}
@@ -0,0 +1,52 @@
+import type { Job } from "@/components/JobTable";
+import type { BatchInfo } from "@/components/CSVImportModal";
+import { DEFAULT_WORKSPACE_SETTINGS } from "@/utils/workspaceRepository";
+import type {
+  BatchImport,
+  BatchRevert,
+  JobAssignment,
+  WorkspaceRepository,
+  WorkspaceSettings,
+  WorkspaceSnapshot,
+} from "@/utils/workspaceRepository";
+import type { AuditEvent } from "@/utils/auditLog";
+
+/**
+ * Workspace repository backed by the bundled workspace server
+ * (server/workspace-server.js), e.g. http://localhost:8787/api.
+ */
+export function createHttpRepository(baseUrl: string): WorkspaceRepository {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const request = async <T>(path: string, init?: { method: string; body: unknown }): Promise<T> => {
+    const response = await fetch(`${root}${path}`, init && {
+      method: init.method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(init.body),
+    });
+    if (!response.ok) {
+      const { error } = await response.json().catch(() => ({ error: undefined }));
+      throw new Error(error || `Workspace server returned ${response.status} for ${path}`);
+    }
+    return response.status === 204 ? undefined as T : response.json();
+  };
+
+  return {
+    id: `http:${root}`,
+    loadWorkspace: async () => {
+      const snapshot = await request<WorkspaceSnapshot>('/workspace');
+      // Settings added after the server's file was written fall back to their defaults
+      return { ...snapshot, auditLog: snapshot.auditLog || [], settings: { ...DEFAULT_WORKSPACE_SETTINGS, ...snapshot.settings } };
+    },
+    listJobs: () => request<Job[]>('/jobs'),
+    listBatches: () => request<BatchInfo[]>('/batches'),
+    updateJobs: (jobs: Job[], audit: AuditEvent[]) => request<Job[]>('/jobs', { method: 'PUT', body: { jobs, audit } }),
+    assignJobs: (jobIds: string[], assignment: JobAssignment, audit: AuditEvent[]) =>
+      request<Job[]>('/jobs/assign', { method: 'POST', body: { jobIds, ...assignment, audit } }),
+    importBatch: (batchImport: BatchImport) => request<void>('/batches', { method: 'POST', body: batchImport }),
+    revertBatch: (revert: BatchRevert) =>
+      request<void>(`/batches/${encodeURIComponent(revert.batchId)}/revert`, { method: 'POST', body: revert }),
+    saveSettings: (settings: WorkspaceSettings) => request<void>('/settings', { method: 'PUT', body: settings }),
+    replaceWorkspace: (snapshot: WorkspaceSnapshot) => request<void>('/workspace', { method: 'PUT', body: snapshot }),
+  };
+}
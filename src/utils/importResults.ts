@@ -0,0 +1,176 @@
+import type { Job } from "@/components/JobTable";
+import type { BatchInfo } from "@/components/CSVImportModal";
+import type { BatchParseResult } from "@/utils/batchUtils";
+import type { ImportDiff, JobDiff } from "@/utils/mergeUtils";
+import { MERGE_FIELDS } from "@/utils/mergeUtils";
+import { customFieldKeyOf } from "@/utils/customFields";
+import { rowsToCSV } from "@/utils/csvUtils";
+
+export type ImportOutcome = 'added' | 'updated' | 'unchanged' | 'duplicate' | 'declined' | 'invalid';
+
+export const IMPORT_OUTCOME_LABELS: Record<ImportOutcome, string> = {
+  added: 'Added',
+  updated: 'Updated',
+  unchanged: 'Unchanged',
+  duplicate: 'Skipped duplicate',
+  declined: 'Declined in review',
+  invalid: 'Invalid',
+};
+
+export interface ImportOutcomeRow {
+  outcome: ImportOutcome;
+  jid: string;
+  // Source record number; only known for invalid rows
+  row?: number;
+  // Batch that already holds the job, for duplicates
+  existingBatchId?: string;
+  // Set when the QC workflow kept the job's status from changing
+  statusBlocked?: boolean;
+  detail: string;
+}
+
+export interface ImportFileResult {
+  fileName: string;
+  rows: ImportOutcomeRow[];
+}
+
+export interface ImportResult {
+  batch: BatchInfo;
+  files: ImportFileResult[];
+}
+
+/** What a parsed file contributed to a batch, kept until the batch is applied. */
+export interface ImportFileSource {
+  fileName: string;
+  // Valid rows in file order
+  jobIds: string[];
+  // Valid rows dropped because an earlier file of the same batch had the Job ID
+  repeatedJobIds: string[];
+  invalidRows: { row: number; jid: string; messages: string[] }[];
+}
+
+export function createFileSource(fileName: string, parse: BatchParseResult, repeatedJobIds: string[] = []): ImportFileSource {
+  const errors = parse.issues.filter(issue => issue.severity === 'error');
+  const messagesByRow = new Map<number, string[]>();
+  errors.forEach(issue => {
+    messagesByRow.set(issue.row, [...(messagesByRow.get(issue.row) || []), `${issue.column}: ${issue.message}`]);
+  });
+  // File-level errors reject every row, so each invalid row carries them too
+  const fileMessages = errors.filter(issue => !parse.invalidRows.some(row => row.row === issue.row))
+    .map(issue => `${issue.column}: ${issue.message}`);
+
+  return {
+    fileName,
+    jobIds: parse.jobs.map(job => job.jid),
+    repeatedJobIds,
+    invalidRows: parse.invalidRows.map(({ row, jid }) => ({ row, jid, messages: [...fileMessages, ...(messagesByRow.get(row) || [])] })),
+  };
+}
+
+function changedFieldLabels(entry: JobDiff): string {
+  return entry.changes
+    .filter(change => change.accepted)
+    .map(change => customFieldKeyOf(change.field) || MERGE_FIELDS.find(f => f.key === change.field)?.label || change.field)
+    .join(', ');
+}
+
+function outcomeFor(entry: JobDiff | undefined, batch: BatchInfo): Omit<ImportOutcomeRow, 'jid'> {
+  if (!entry) return { outcome: 'unchanged', detail: '' };
+  const blocked = entry.changes.find(change => change.blocked)?.blocked;
+
+  switch (entry.kind) {
+    case 'create':
+      return entry.accepted
+        ? { outcome: 'added', detail: '' }
+        : { outcome: 'declined', detail: 'New job declined in review' };
+    case 'update':
+      return entry.changes.some(change => change.accepted)
+        ? { outcome: 'updated', ...(blocked && { statusBlocked: true }), detail: [changedFieldLabels(entry), blocked].filter(Boolean).join('; ') }
+        : {
+          outcome: 'unchanged',
+          ...(blocked && { statusBlocked: true }),
+          detail: entry.policyNote || blocked || 'All changes declined in review',
+        };
+    default:
+      // Fresh data never touches existing jobs, so a known Job ID is skipped
+      return batch.type === 'Fresh'
+        ? {
+          outcome: 'duplicate',
+          existingBatchId: entry.existing?.batchId,
+          detail: `Job ID already exists${entry.existing?.batchId ? ` in ${entry.existing.batchId}` : ''}`,
+        }
+        : { outcome: 'unchanged', detail: 'Matches the existing job' };
+  }
+}
+
+/** Classifies every row of every file by what applying the diff did with it. */
+export function buildImportResult(batch: BatchInfo, sources: ImportFileSource[], diff: ImportDiff): ImportResult {
+  const entriesById = new Map(
+    [...diff.creates, ...diff.updates, ...diff.unchanged].map(entry => [entry.jid, entry])
+  );
+
+  const files = sources.map(source => {
+    const repeated = new Set(source.repeatedJobIds);
+    const rows: ImportOutcomeRow[] = [
+      ...source.jobIds.map(jid => repeated.has(jid)
+        ? { jid, outcome: 'duplicate' as const, existingBatchId: batch.id, detail: 'Also in an earlier file of this batch' }
+        : { jid, ...outcomeFor(entriesById.get(jid), batch) }),
+      ...source.invalidRows.map(({ row, jid, messages }) => ({
+        jid,
+        row,
+        outcome: 'invalid' as const,
+        detail: messages.join('; '),
+      })),
+    ];
+    return { fileName: source.fileName, rows };
+  });
+
+  return { batch, files };
+}
+
+export function countOutcomes(rows: ImportOutcomeRow[]): Record<ImportOutcome, number> {
+  const counts: Record<ImportOutcome, number> = { added: 0, updated: 0, unchanged: 0, duplicate: 0, declined: 0, invalid: 0 };
+  rows.forEach(row => counts[row.outcome]++);
+  return counts;
+}
+
+export const resultRows = (result: ImportResult) => result.files.flatMap(file => file.rows);
+
+/** Short outcome tally for toasts, e.g. "12 added, skipped 3 duplicates". */
+export function describeOutcomes(rows: ImportOutcomeRow[]): string {
+  const counts = countOutcomes(rows);
+  const blocked = rows.filter(row => row.statusBlocked).length;
+  return [
+    `${counts.added} added`,
+    counts.updated > 0 && `${counts.updated} updated`,
+    counts.duplicate > 0 && `skipped ${counts.duplicate} duplicates`,
+    counts.invalid > 0 && `skipped ${counts.invalid} invalid rows`,
+    blocked > 0 && `${blocked} status changes blocked by the QC workflow`,
+  ].filter(Boolean).join(', ');
+}
+
+/** Whether anything in the results was left out and deserves a closer look. */
+export const hasSkippedRows = (results: ImportResult[]) =>
+  results.some(result => resultRows(result).some(row => row.outcome === 'duplicate' || row.outcome === 'invalid' || row.statusBlocked));
+
+/** Jobs that carry the batch ID, which is what the batch's jobCount reports. */
+export function countBatchJobs(jobs: Job[], batchId: string): number {
+  return jobs.reduce((count, job) => job.batchId === batchId ? count + 1 : count, 0);
+}
+
+/** Serializes import results as a downloadable CSV summary. */
+export function importResultsToCSV(results: ImportResult[]): string {
+  return rowsToCSV([
+    ['Batch ID', 'Batch Name', 'File', 'Job ID', 'Row', 'Outcome', 'Existing Batch', 'Detail'],
+    ...results.flatMap(({ batch, files }) => files.flatMap(file => file.rows.map(row => [
+      batch.id,
+      batch.name,
+      file.fileName,
+      row.jid,
+      row.row ? String(row.row) : '',
+      IMPORT_OUTCOME_LABELS[row.outcome],
+      row.existingBatchId || '',
+      row.detail,
+    ]))),
+  ]);
+}
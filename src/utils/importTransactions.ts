@@ -0,0 +1,108 @@
+import type { Job } from "@/components/JobTable";
+import type { BatchInfo } from "@/components/CSVImportModal";
+
+export interface ImportTransaction {
+  id: string;
+  batch: BatchInfo;
+  committedAt: string;
+  createdJobIds: string[];
+  // Only the fields an import changed, keyed by jid
+  priorValues: Record<string, Partial<Job>>;
+  appliedValues: Record<string, Partial<Job>>;
+}
+
+export interface RevertResult {
+  jobs: Job[];
+  // Jobs whose imported values were edited again after the import
+  editedSinceImport: string[];
+}
+
+function changedFields(before: Job, after: Job): (keyof Job)[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)] as (keyof Job)[]);
+  return [...keys].filter(key => before[key] !== after[key]);
+}
+
+/** Records what an import did by comparing the job list before and after it. */
+export function createImportTransaction(batch: BatchInfo, before: Job[], after: Job[]): ImportTransaction {
+  const beforeById = new Map(before.map(job => [job.jid, job]));
+  const transaction: ImportTransaction = {
+    id: `import_${Date.now()}_${batch.id}`,
+    batch,
+    committedAt: new Date().toISOString(),
+    createdJobIds: [],
+    priorValues: {},
+    appliedValues: {},
+  };
+
+  after.forEach(job => {
+    const previous = beforeById.get(job.jid);
+    if (!previous) {
+      transaction.createdJobIds.push(job.jid);
+      return;
+    }
+
+    const fields = changedFields(previous, job);
+    if (fields.length === 0) return;
+    transaction.priorValues[job.jid] = Object.fromEntries(fields.map(f => [f, previous[f]]));
+    transaction.appliedValues[job.jid] = Object.fromEntries(fields.map(f => [f, job[f]]));
+  });
+
+  return transaction;
+}
+
+function touchedJobIds(transaction: ImportTransaction): Set<string> {
+  return new Set([...transaction.createdJobIds, ...Object.keys(transaction.priorValues)]);
+}
+
+/**
+ * Later imports that touched the same jobs must be reverted first, otherwise
+ * restoring this import's prior values would silently undo theirs.
+ */
+export function findRevertBlockers(transaction: ImportTransaction, log: ImportTransaction[]): ImportTransaction[] {
+  const touched = touchedJobIds(transaction);
+  const position = log.findIndex(entry => entry.id === transaction.id);
+  return log
+    .slice(position + 1)
+    .filter(other => [...touchedJobIds(other)].some(jid => touched.has(jid)));
+}
+
+// Serializes with sorted keys, so objects with the same contents compare equal
+const canonicalJSON = (value: unknown) => JSON.stringify(value, (_, inner) =>
+  inner && typeof inner === 'object' && !Array.isArray(inner)
+    ? Object.fromEntries(Object.entries(inner).sort(([a], [b]) => a.localeCompare(b)))
+    : inner);
+
+// Object fields such as customFields and reworkCycles come back from storage as copies
+const sameFieldValue = (a: unknown, b: unknown) => a === b || canonicalJSON(a) === canonicalJSON(b);
+
+/**
+ * Removes the jobs an import created and restores the fields it changed.
+ * Jobs the import did not touch are returned as they are.
+ */
+export function revertImportTransaction(jobs: Job[], transaction: ImportTransaction): RevertResult {
+  const created = new Set(transaction.createdJobIds);
+  const editedSinceImport: string[] = [];
+
+  const reverted = jobs
+    .filter(job => !created.has(job.jid))
+    .map(job => {
+      const prior = transaction.priorValues[job.jid];
+      if (!prior) return job;
+
+      const applied = transaction.appliedValues[job.jid];
+      const restored = { ...job };
+      (Object.keys(prior) as (keyof Job)[]).forEach(field => {
+        if (!sameFieldValue(job[field], applied[field]) && !editedSinceImport.includes(job.jid)) {
+          editedSinceImport.push(job.jid);
+        }
+        if (prior[field] === undefined) {
+          delete restored[field];
+        } else {
+          (restored as Record<string, unknown>)[field] = prior[field];
+        }
+      });
+      return restored;
+    });
+
+  return { jobs: reverted, editedSinceImport };
+}
@@ -0,0 +1,73 @@
+import type { Job } from "@/components/JobTable";
+import { stampJob } from "@/utils/workspaceRepository";
+
+// Steps kept per direction; older ones fall off the bottom of the stack
+export const MAX_UNDO_STEPS = 50;
+
+// Revision fields belong to the write, not the edit
+const UNTRACKED_FIELDS = new Set<string>(['version', 'updatedAt']);
+
+export interface JobFieldChange {
+  jid: string;
+  // Only the fields the edit changed; undefined means the field was absent
+  before: Partial<Job>;
+  after: Partial<Job>;
+}
+
+/** One user action on one or more jobs, undone and redone as a whole. */
+export interface JobEditStep {
+  id: string;
+  // Describes the action in toasts, e.g. "Assign 12 jobs to Virat"
+  label: string;
+  changes: JobFieldChange[];
+}
+
+let sequence = 0;
+
+function fieldChange(before: Job, after: Job): JobFieldChange | null {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)] as (keyof Job)[]);
+  const changed = [...keys].filter(key => !UNTRACKED_FIELDS.has(key) && before[key] !== after[key]);
+  if (changed.length === 0) return null;
+  return {
+    jid: after.jid,
+    before: Object.fromEntries(changed.map(key => [key, before[key]])),
+    after: Object.fromEntries(changed.map(key => [key, after[key]])),
+  };
+}
+
+/** Records an edit from the jobs as they were and as they were written; null when nothing changed. */
+export function createJobEditStep(label: string, before: Job[], after: Job[]): JobEditStep | null {
+  const beforeById = new Map(before.map(job => [job.jid, job]));
+  const changes = after.flatMap(job => {
+    const previous = beforeById.get(job.jid);
+    const change = previous && fieldChange(previous, job);
+    return change ? [change] : [];
+  });
+  return changes.length > 0 ? { id: `edit_${Date.now()}_${sequence++}`, label, changes } : null;
+}
+
+/**
+ * The writes that undo or redo a step against the current jobs. Only the
+ * step's own fields are set back, so later edits to other fields survive;
+ * jobs removed since (e.g. by a revert) are skipped.
+ */
+export function jobEditStepWrites(jobs: Job[], step: JobEditStep, direction: 'undo' | 'redo', at = new Date().toISOString()) {
+  const currentById = new Map(jobs.map(job => [job.jid, job]));
+  return step.changes.flatMap(change => {
+    const current = currentById.get(change.jid);
+    if (!current) return [];
+    const values = direction === 'undo' ? change.before : change.after;
+    const restored = { ...current };
+    (Object.keys(values) as (keyof Job)[]).forEach(field => {
+      if (values[field] === undefined) {
+        delete restored[field];
+      } else {
+        (restored as Record<string, unknown>)[field] = values[field];
+      }
+    });
+    return [{ before: current, after: stampJob(restored, at) }];
+  });
+}
+
+/** Pushes a step, dropping the oldest beyond MAX_UNDO_STEPS. */
+export const pushStep = (stack: JobEditStep[], step: JobEditStep) => [...stack, step].slice(-MAX_UNDO_STEPS);
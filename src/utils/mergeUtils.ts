@@ -0,0 +1,239 @@
+import type { Job } from "@/components/JobTable";
+import { customFieldColumn, customFieldKeyOf, formatCustomValue } from "@/utils/customFields";
+import type { CustomFieldColumn } from "@/utils/customFields";
+import { canImportStatus, transitionBlockedReason } from "@/utils/qcWorkflow";
+import type { QCWorkflow } from "@/utils/qcWorkflow";
+import { trackReworkCycle } from "@/utils/reworkCycles";
+
+export type MergePolicy = 'incoming-wins' | 'newest-qc-date' | 'protect-accepted';
+
+export const MERGE_POLICIES: { value: MergePolicy; label: string; description: string }[] = [
+  {
+    value: 'incoming-wins',
+    label: 'Incoming file wins',
+    description: 'Every differing field is taken from the imported file',
+  },
+  {
+    value: 'newest-qc-date',
+    label: 'Newest QC date wins',
+    description: 'Jobs whose existing QC date is newer than the file keep their current values',
+  },
+  {
+    value: 'protect-accepted',
+    label: 'Never overwrite Accepted',
+    description: 'Jobs already accepted in QC are left untouched',
+  },
+];
+
+export interface MergeOptions {
+  policy: MergePolicy;
+  // Updated jobs stay in the batch they were created in
+  keepBatchAssignment: boolean;
+  // Status updates that fail canImportStatus are blocked; unset allows any
+  workflow?: QCWorkflow;
+}
+
+export const DEFAULT_MERGE_OPTIONS: MergeOptions = {
+  policy: 'incoming-wins',
+  keepBatchAssignment: true,
+};
+
+export type MergeField =
+  | 'refId'
+  | 'clientFileName'
+  | 'dataStatus'
+  | 'makingDate'
+  | 'qcName'
+  | 'qcDate'
+  | 'qcStatus'
+  | 'rejectReason'
+  | 'rejectCategory'
+  | 'errorSeverity'
+  | 'reworkDate'
+  | 'comment'
+  | 'batchId'
+  | 'assignedTo'
+  | 'assignedDate'
+  | 'assignedBy';
+
+export const MERGE_FIELDS: { key: MergeField; label: string }[] = [
+  { key: 'refId', label: 'Ref ID' },
+  { key: 'clientFileName', label: 'Client File Name' },
+  { key: 'dataStatus', label: 'Data Status' },
+  { key: 'makingDate', label: 'Making Date' },
+  { key: 'qcName', label: 'QC Name' },
+  { key: 'qcDate', label: 'QC Date' },
+  { key: 'qcStatus', label: 'QC Status' },
+  { key: 'rejectReason', label: 'Reject Reason' },
+  { key: 'rejectCategory', label: 'Reject Category' },
+  { key: 'errorSeverity', label: 'Error Severity' },
+  { key: 'reworkDate', label: 'Rework Date' },
+  { key: 'comment', label: 'Comment' },
+  { key: 'batchId', label: 'Batch' },
+  { key: 'assignedTo', label: 'Assigned To' },
+  { key: 'assignedDate', label: 'Assigned Date' },
+  { key: 'assignedBy', label: 'Assigned By' },
+];
+
+// Normalized dates travel with the text they were parsed from
+const DERIVED_FIELDS: Partial<Record<MergeField, keyof Job>> = {
+  makingDate: 'makingDateISO',
+  qcDate: 'qcDateISO',
+  reworkDate: 'reworkDateISO',
+};
+
+export interface FieldChange {
+  field: MergeField | CustomFieldColumn;
+  before: string;
+  after: string;
+  accepted: boolean;
+  // Why the change can never be accepted, e.g. an illegal status transition
+  blocked?: string;
+}
+
+export interface JobDiff {
+  jid: string;
+  kind: 'create' | 'update' | 'unchanged';
+  existing?: Job;
+  incoming: Job;
+  changes: FieldChange[];
+  // Only meaningful for creates; updates are decided per field
+  accepted: boolean;
+  // Why the policy declined the incoming values by default
+  policyNote?: string;
+}
+
+export interface ImportDiff {
+  creates: JobDiff[];
+  updates: JobDiff[];
+  unchanged: JobDiff[];
+}
+
+function policyNoteFor(existing: Job, incoming: Job, policy: MergePolicy): string | undefined {
+  if (policy === 'protect-accepted' && existing.qcStatus === 'Accepted') {
+    return 'Existing job is already Accepted';
+  }
+  if (
+    policy === 'newest-qc-date' &&
+    existing.qcDateISO &&
+    incoming.qcDateISO &&
+    incoming.qcDateISO < existing.qcDateISO
+  ) {
+    return `Existing QC date ${existing.qcDate} is newer than ${incoming.qcDate}`;
+  }
+  return undefined;
+}
+
+/**
+ * Compares incoming rows with existing jobs by jid. Blank incoming cells never
+ * clear existing values. The merge policy only sets the default decision for
+ * each change; callers may flip any of them before applying.
+ */
+export function diffImport(existingJobs: Job[], incomingJobs: Job[], options: MergeOptions): ImportDiff {
+  const existingById = new Map(existingJobs.map(job => [job.jid, job]));
+  const diff: ImportDiff = { creates: [], updates: [], unchanged: [] };
+
+  incomingJobs.forEach(incoming => {
+    const existing = existingById.get(incoming.jid);
+    if (!existing) {
+      diff.creates.push({ jid: incoming.jid, kind: 'create', incoming, changes: [], accepted: true });
+      return;
+    }
+
+    const policyNote = policyNoteFor(existing, incoming, options.policy);
+    const changes: FieldChange[] = [];
+
+    MERGE_FIELDS.forEach(({ key }) => {
+      const before = existing[key] || '';
+      const after = incoming[key] || '';
+      if (!after || before === after) return;
+      const blocked = key === 'qcStatus' && options.workflow && !canImportStatus(options.workflow, before, after)
+        ? transitionBlockedReason(before, after)
+        : undefined;
+      const accepted = !policyNote && !blocked && !(key === 'batchId' && options.keepBatchAssignment);
+      changes.push({ field: key, before, after, accepted, ...(blocked && { blocked }) });
+    });
+
+    Object.keys(incoming.customFields || {}).forEach(key => {
+      const before = formatCustomValue(existing, key);
+      const after = formatCustomValue(incoming, key);
+      if (!after || before === after) return;
+      changes.push({ field: customFieldColumn(key), before, after, accepted: !policyNote });
+    });
+
+    const entry: JobDiff = {
+      jid: incoming.jid,
+      kind: changes.length > 0 ? 'update' : 'unchanged',
+      existing,
+      incoming,
+      changes,
+      accepted: true,
+      policyNote,
+    };
+    (changes.length > 0 ? diff.updates : diff.unchanged).push(entry);
+  });
+
+  return diff;
+}
+
+/** Fresh data never touches existing jobs: known jids are left unchanged. */
+export function diffFreshImport(existingJobs: Job[], incomingJobs: Job[]): ImportDiff {
+  const existingById = new Map(existingJobs.map(job => [job.jid, job]));
+  const diff: ImportDiff = { creates: [], updates: [], unchanged: [] };
+
+  incomingJobs.forEach(incoming => {
+    const existing = existingById.get(incoming.jid);
+    const entry: JobDiff = {
+      jid: incoming.jid,
+      kind: existing ? 'unchanged' : 'create',
+      existing,
+      incoming,
+      changes: [],
+      accepted: !existing,
+    };
+    (existing ? diff.unchanged : diff.creates).push(entry);
+  });
+
+  return diff;
+}
+
+/**
+ * Applies the accepted parts of a diff, keeping existing job order. Status
+ * changes are recorded in the jobs' rework cycles as of the import.
+ */
+export function applyImportDiff(existingJobs: Job[], diff: ImportDiff, at = new Date().toISOString()): Job[] {
+  const updatesById = new Map(diff.updates.map(entry => [entry.jid, entry]));
+
+  const merged = existingJobs.map(job => {
+    const entry = updatesById.get(job.jid);
+    if (!entry) return job;
+
+    const updated = { ...job };
+    entry.changes.filter(change => change.accepted && !change.blocked).forEach(change => {
+      const customKey = customFieldKeyOf(change.field);
+      if (customKey) {
+        updated.customFields = { ...updated.customFields, [customKey]: entry.incoming.customFields[customKey] };
+        return;
+      }
+      const field = change.field as MergeField;
+      updated[field] = entry.incoming[field];
+      const derived = DERIVED_FIELDS[field];
+      if (derived) {
+        (updated as Record<string, unknown>)[derived] = entry.incoming[derived];
+      }
+    });
+    return trackReworkCycle(job.qcStatus, updated, at);
+  });
+
+  const created = diff.creates
+    .filter(entry => entry.accepted)
+    .map(entry => trackReworkCycle('Not Started', entry.incoming, at));
+  return [...merged, ...created];
+}
+
+export function countAppliedChanges(diff: ImportDiff) {
+  return {
+    created: diff.creates.filter(entry => entry.accepted).length,
+    updated: diff.updates.filter(entry => entry.changes.some(change => change.accepted && !change.blocked)).length,
+  };
+}
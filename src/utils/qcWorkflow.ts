@@ -0,0 +1,115 @@
+import type { Job } from "@/components/JobTable";
+import { QC_STATUSES } from "@/utils/schemas";
+import type { QCStatus } from "@/utils/schemas";
+import { trackReworkCycle } from "@/utils/reworkCycles";
+
+// What happens to a job as it enters a status, besides the status itself
+export type QCSideEffect = 'stamp-qc' | 'stamp-rework';
+
+export const QC_SIDE_EFFECT_LABELS: Record<QCSideEffect, string> = {
+  'stamp-qc': 'Stamp QC name and date',
+  'stamp-rework': 'Stamp rework date',
+};
+
+/**
+ * The QC lifecycle: which statuses a job may move to from each status, and
+ * the side effects of entering one. Stored with the workspace settings.
+ */
+export interface QCWorkflow {
+  transitions: Record<QCStatus, QCStatus[]>;
+  effects: Record<QCStatus, QCSideEffect[]>;
+}
+
+export const DEFAULT_QC_WORKFLOW: QCWorkflow = {
+  transitions: {
+    'Not Started': ['In QC', 'Hold'],
+    'In QC': ['Accepted', 'Rejected', 'Output Not Found', 'Hold'],
+    'Accepted': ['Re-QC'],
+    'Rejected': ['In Rework'],
+    'Output Not Found': ['In QC', 'In Rework'],
+    'In Rework': ['Re-QC'],
+    'Re-QC': ['Accepted', 'Rejected', 'Output Not Found'],
+    'Hold': ['In QC'],
+  },
+  effects: {
+    'Not Started': [],
+    'In QC': [],
+    'Accepted': ['stamp-qc'],
+    'Rejected': ['stamp-qc'],
+    'Output Not Found': ['stamp-qc'],
+    'In Rework': ['stamp-rework'],
+    'Re-QC': [],
+    'Hold': [],
+  },
+};
+
+/**
+ * Statuses a job can move to directly. A status the workflow does not know,
+ * e.g. from an older workspace, may move anywhere so no job gets stuck.
+ */
+export function allowedTransitions(workflow: QCWorkflow, from: string): QCStatus[] {
+  return workflow.transitions[from as QCStatus] ?? QC_STATUSES.filter(status => status !== from);
+}
+
+export const canTransition = (workflow: QCWorkflow, from: string, to: string) =>
+  from !== to && allowedTransitions(workflow, from).includes(to as QCStatus);
+
+// How far through QC each status is; imports may only skip steps going forward
+const QC_PROGRESS: Record<QCStatus, number> = {
+  'Not Started': 0,
+  'Hold': 0,
+  'In QC': 1,
+  'Rejected': 2,
+  'Output Not Found': 2,
+  'In Rework': 3,
+  'Re-QC': 4,
+  'Accepted': 5,
+};
+
+/**
+ * Whether an import may move a job from one status to another. Imports report
+ * where a job ended up, not every step on the way, so besides the direct
+ * transitions they may take the shortest chain of transitions in which every
+ * step moves forward through QC, e.g. Not Started to Accepted through In QC.
+ * A backward move, such as Accepted to Re-QC, must be a direct transition.
+ */
+export function canImportStatus(workflow: QCWorkflow, from: string, to: string): boolean {
+  if (from === to || canTransition(workflow, from, to)) return true;
+  const progress = (status: string) => QC_PROGRESS[status as QCStatus] ?? -1;
+  if (progress(to) < 0) return false;
+
+  const seen = new Set<string>([from]);
+  const queue = [from];
+  while (queue.length > 0) {
+    const status = queue.shift()!;
+    for (const next of allowedTransitions(workflow, status)) {
+      if (seen.has(next) || progress(next) <= progress(status)) continue;
+      if (next === to) return true;
+      seen.add(next);
+      queue.push(next);
+    }
+  }
+  return false;
+}
+
+export const transitionBlockedReason = (from: string, to: string) =>
+  `The QC workflow does not allow ${from || 'no status'} → ${to}`;
+
+/**
+ * Moves a job to a status, applies the status's side effects and records the
+ * move in the job's rework cycles. Throws on an illegal transition; callers
+ * check canTransition first to show why.
+ */
+export function transitionJob(job: Job, to: QCStatus, workflow: QCWorkflow, actor: string, at = new Date()): Job {
+  if (!canTransition(workflow, job.qcStatus, to)) {
+    throw new Error(transitionBlockedReason(job.qcStatus, to));
+  }
+  const day = at.toISOString().slice(0, 10);
+  const effects = workflow.effects[to] ?? [];
+  return trackReworkCycle(job.qcStatus, {
+    ...job,
+    qcStatus: to,
+    ...(effects.includes('stamp-qc') && { qcName: actor, qcDate: day, qcDateISO: day }),
+    ...(effects.includes('stamp-rework') && { reworkDate: day, reworkDateISO: day }),
+  }, at.toISOString());
+}
@@ -0,0 +1,80 @@
+import type { Job } from "@/components/JobTable";
+
+export const ERROR_SEVERITIES = ['Minor', 'Major', 'Critical'] as const;
+
+export type ErrorSeverity = typeof ERROR_SEVERITIES[number];
+
+export interface RejectCategory {
+  // Stable ID; pattern anomalies and their resolutions are keyed by it
+  key: string;
+  label: string;
+  // Reasons typed without a category are placed by these words
+  keywords: string[];
+}
+
+/** The reason taxonomy rejections are filed under and pattern analysis groups by. */
+export const REJECT_CATEGORIES: RejectCategory[] = [
+  { key: 'structural_error', label: 'Structural error', keywords: ['retrror'] },
+  { key: 'missing_component', label: 'Missing component', keywords: ['missing'] },
+  { key: 'incorrect_labeling', label: 'Incorrect labeling', keywords: ['wrong'] },
+  { key: 'other', label: 'Other', keywords: [] },
+];
+
+/** The category a job's rejection is filed under: the recorded one, else the first whose keywords its reason contains. */
+export function rejectCategoryOf(job: Pick<Job, 'rejectCategory' | 'rejectReason'>): RejectCategory | undefined {
+  if (job.rejectCategory) {
+    const recorded = REJECT_CATEGORIES.find(category => category.label === job.rejectCategory || category.key === job.rejectCategory);
+    if (recorded) return recorded;
+  }
+  const reason = job.rejectReason?.toLowerCase() || '';
+  return REJECT_CATEGORIES.find(category => category.keywords.some(keyword => reason.includes(keyword)));
+}
+
+// Uncategorised and "Other" rejections group by their exact reason
+export function rejectPatternKey(job: Pick<Job, 'rejectCategory' | 'rejectReason'>): string {
+  const category = rejectCategoryOf(job);
+  return category && category.key !== 'other' ? category.key : job.rejectReason || '';
+}
+
+/** What the reviewer records when rejecting one or more jobs. */
+export interface RejectionDetails {
+  category: string;
+  reason: string;
+  severity: ErrorSeverity;
+  // Replaces the job's comment when given
+  comment: string;
+}
+
+export const applyRejectionDetails = (job: Job, details: RejectionDetails): Job => ({
+  ...job,
+  rejectCategory: details.category,
+  rejectReason: details.reason.trim(),
+  errorSeverity: details.severity,
+  ...(details.comment.trim() && { comment: details.comment.trim() }),
+});
+
+/**
+ * Reasons already used in the workspace, most used first, from current
+ * rejections and earlier rework cycles. With a category, only its reasons.
+ */
+export function previousRejectReasons(jobs: Job[], category?: string): string[] {
+  const counts = new Map<string, number>();
+  const add = (reason: string | undefined, categoryLabel: string | undefined) => {
+    const text = reason?.trim();
+    if (!text) return;
+    if (category && rejectCategoryOf({ rejectCategory: categoryLabel, rejectReason: text })?.label !== category) return;
+    counts.set(text, (counts.get(text) || 0) + 1);
+  };
+
+  jobs.forEach(job => {
+    const cycles = job.reworkCycles ?? [];
+    cycles.forEach(cycle => add(cycle.rejectReason, cycle.category));
+    // The current rejection is usually also the latest cycle
+    if (job.qcStatus === 'Rejected' && cycles.length > 0) return;
+    add(job.rejectReason, job.rejectCategory);
+  });
+
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([reason]) => reason);
+}
@@ -0,0 +1,181 @@
+import type { Job } from "@/components/JobTable";
+import { parseCSVRows, isBlankRow } from "@/utils/csvUtils";
+
+export interface ReportDailyQC {
+  date: string;
+  qcCount: number;
+  accepted: number;
+  rejected: number;
+  onf: number;
+}
+
+export interface ReportSummary {
+  reportName?: string;
+  reportDate?: string;
+  totalJobs?: number;
+  pendingMaking?: number;
+  pendingInQC?: number;
+  acceptedInQC?: number;
+  makingCompleted?: number;
+  todayQC?: number;
+  totalQC?: number;
+  notStarted?: number;
+  dailyTotals?: Omit<ReportDailyQC, 'date'>;
+  daily: ReportDailyQC[];
+}
+
+export interface ReconciliationItem {
+  key: string;
+  label: string;
+  reported: number;
+  computed: number;
+  matches: boolean;
+}
+
+const QC_VERDICTS = ['Accepted', 'Rejected', 'Output Not Found'];
+
+function toNumber(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = parseInt(value.replace(/[^\d-]/g, ''), 10);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Reads the summary block of the legacy report sheet: the "Label - value"
+ * cells on the first row and the "Date, QC Count, Accepted, Rejected, ONF"
+ * side table. Returns null when the file has neither.
+ */
+export function parseReportSummary(csvContent: string): ReportSummary | null {
+  return parseReportSummaryRows(parseCSVRows(csvContent));
+}
+
+export function parseReportSummaryRows(rows: string[][]): ReportSummary | null {
+  if (rows.length === 0) return null;
+
+  const summary: ReportSummary = { daily: [] };
+  let recognized = false;
+  const headerCells = rows[0].map(cell => cell.trim());
+
+  headerCells.forEach((cell, index) => {
+    const reportMatch = cell.match(/^Report\s*=\s*(.+?)\s*-\s*(\d+)$/i);
+    if (reportMatch) {
+      summary.reportName = reportMatch[1];
+      summary.totalJobs = toNumber(reportMatch[2]);
+      recognized = true;
+      return;
+    }
+
+    const pairMatch = cell.match(/^(.+?)\s+-\s+(.+)$/);
+    const label = (pairMatch ? pairMatch[1] : cell).toLowerCase();
+    const value = pairMatch ? pairMatch[2] : headerCells[index + 1];
+
+    switch (label) {
+      case 'pending making':
+        summary.pendingMaking = toNumber(value);
+        break;
+      case 'pending in qc':
+        summary.pendingInQC = toNumber(value);
+        break;
+      case 'accepted in qc': {
+        const [accepted, total] = (value || '').split('/');
+        summary.acceptedInQC = toNumber(accepted);
+        summary.totalJobs = summary.totalJobs ?? toNumber(total);
+        break;
+      }
+      case 'making completed':
+        summary.makingCompleted = toNumber(value);
+        break;
+      case 'total':
+        if (!pairMatch) return;
+        summary.reportDate = value;
+        break;
+      case 'today qc':
+        summary.todayQC = toNumber(value);
+        break;
+      case 'total qc':
+        summary.totalQC = toNumber(value);
+        break;
+      case 'not started':
+        summary.notStarted = toNumber(value);
+        break;
+      default:
+        return;
+    }
+    recognized = true;
+  });
+
+  // Locate the daily QC side table by its header cells
+  for (let r = 0; r < Math.min(rows.length, 10); r++) {
+    const col = rows[r].findIndex((cell, i) =>
+      cell.trim().toLowerCase() === 'date' && rows[r][i + 1]?.trim().toLowerCase() === 'qc count'
+    );
+    if (col < 0) continue;
+
+    const readCounts = (row: string[]) => ({
+      qcCount: toNumber(row[col + 1]) ?? 0,
+      accepted: toNumber(row[col + 2]) ?? 0,
+      rejected: toNumber(row[col + 3]) ?? 0,
+      onf: toNumber(row[col + 4]) ?? 0,
+    });
+
+    if (r > 0 && rows[r - 1][col]?.trim().toLowerCase() === 'total') {
+      summary.dailyTotals = readCounts(rows[r - 1]);
+    }
+
+    for (let i = r + 1; i < rows.length; i++) {
+      const date = rows[i][col]?.trim();
+      if (!date || isBlankRow(rows[i].slice(col, col + 5))) break;
+      summary.daily.push({ date, ...readCounts(rows[i]) });
+    }
+
+    recognized = true;
+    break;
+  }
+
+  return recognized ? summary : null;
+}
+
+/**
+ * Compares the spreadsheet's hand-maintained totals with numbers computed
+ * from the parsed jobs. Only figures present in the report are compared.
+ */
+export function reconcileReport(summary: ReportSummary, jobs: Job[]): ReconciliationItem[] {
+  const items: ReconciliationItem[] = [];
+  const count = (predicate: (job: Job) => boolean) => jobs.filter(predicate).length;
+  const isVerdict = (job: Job) => QC_VERDICTS.includes(job.qcStatus);
+
+  const add = (key: string, label: string, reported: number | undefined, computed: number) => {
+    if (reported === undefined) return;
+    items.push({ key, label, reported, computed, matches: reported === computed });
+  };
+
+  add('totalJobs', 'Total Jobs', summary.totalJobs, jobs.length);
+  add('makingCompleted', 'Making Completed', summary.makingCompleted, count(j => j.dataStatus === 'Done'));
+  add('pendingMaking', 'Pending Making', summary.pendingMaking, count(j => j.dataStatus !== 'Done'));
+  add('pendingInQC', 'Pending in QC', summary.pendingInQC, count(j => j.qcStatus === 'Not Started' || j.qcStatus === 'Rejected'));
+  add('acceptedInQC', 'Accepted in QC', summary.acceptedInQC, count(j => j.qcStatus === 'Accepted'));
+  add('notStarted', 'Not Started', summary.notStarted, count(j => j.qcStatus === 'Not Started'));
+  add('totalQC', 'Total QC', summary.totalQC, count(isVerdict));
+  if (summary.reportDate) {
+    add('todayQC', `QC on ${summary.reportDate}`, summary.todayQC, count(j => isVerdict(j) && j.qcDate === summary.reportDate));
+  }
+
+  if (summary.dailyTotals) {
+    const dailyDates = new Set(summary.daily.map(d => d.date));
+    const inTable = jobs.filter(j => isVerdict(j) && dailyDates.has(j.qcDate));
+    add('dailyTotals.qcCount', 'Daily Table Total: QC Count', summary.dailyTotals.qcCount, inTable.length);
+    add('dailyTotals.accepted', 'Daily Table Total: Accepted', summary.dailyTotals.accepted, inTable.filter(j => j.qcStatus === 'Accepted').length);
+    add('dailyTotals.rejected', 'Daily Table Total: Rejected', summary.dailyTotals.rejected, inTable.filter(j => j.qcStatus === 'Rejected').length);
+    add('dailyTotals.onf', 'Daily Table Total: ONF', summary.dailyTotals.onf, inTable.filter(j => j.qcStatus === 'Output Not Found').length);
+  }
+
+  summary.daily.forEach(day => {
+    const dayJobs = jobs.filter(j => isVerdict(j) && j.qcDate === day.date);
+    add(`daily.${day.date}.qcCount`, `${day.date}: QC Count`, day.qcCount, dayJobs.length);
+    add(`daily.${day.date}.accepted`, `${day.date}: Accepted`, day.accepted, dayJobs.filter(j => j.qcStatus === 'Accepted').length);
+    add(`daily.${day.date}.rejected`, `${day.date}: Rejected`, day.rejected, dayJobs.filter(j => j.qcStatus === 'Rejected').length);
+    add(`daily.${day.date}.onf`, `${day.date}: ONF`, day.onf, dayJobs.filter(j => j.qcStatus === 'Output Not Found').length);
+  });
+
+  return items;
+}
@@ -0,0 +1,169 @@
+import type { Job } from "@/components/JobTable";
+
+export type ReworkResult = 'Accepted' | 'Rejected' | 'Output Not Found';
+
+/**
+ * One trip round the rework loop: the rejection that started it, the rework,
+ * and what the re-QC decided. Times are ISO timestamps.
+ */
+export interface ReworkCycle {
+  // 1 for the first rejection of the job
+  cycle: number;
+  rejectReason: string;
+  category?: string;
+  severity?: string;
+  rejectedBy: string;
+  rejectedAt: string;
+  reworkStartedAt?: string;
+  // Set when the reworked job went back for re-QC
+  reworkFinishedAt?: string;
+  result?: ReworkResult;
+  resultBy?: string;
+  resultAt?: string;
+}
+
+// Statuses a job sits in before it has been through QC at all
+const PRE_QC_STATUSES = new Set(['Not Started', 'In QC', 'Hold']);
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const openCycleOf = (cycles: ReworkCycle[]) => {
+  const last = cycles[cycles.length - 1];
+  return last && !last.result ? last : undefined;
+};
+
+const withLast = (cycles: ReworkCycle[], last: ReworkCycle) => [...cycles.slice(0, -1), last];
+
+// The job's own date for a step when it is from an earlier day, e.g. a QC date
+// from an imported file; otherwise the time of the change. Keeps both ends of a
+// cycle on the same clock.
+const stepTime = (date: string | undefined, at: string) => date && date < at.slice(0, 10) ? date : at;
+
+/**
+ * Updates a job's rework cycles for the status it has just moved to from
+ * `previousStatus`. A rejection closes the open cycle and starts the next one;
+ * In Rework and Re-QC time the rework; Accepted or Output Not Found closes it.
+ * The QC name on the job is taken as the reviewer, and its QC and rework
+ * dates as the times of the steps they record.
+ */
+export function trackReworkCycle(previousStatus: string, job: Job, at = new Date().toISOString()): Job {
+  if (previousStatus === job.qcStatus) return job;
+  const cycles = job.reworkCycles ?? [];
+  const open = openCycleOf(cycles);
+  const reviewer = job.qcName || '';
+  const qcAt = stepTime(job.qcDateISO, at);
+
+  const startCycle = (closed: ReworkCycle[], rejectReason: string, rejectedAt: string): ReworkCycle => ({
+    cycle: closed.length + 1,
+    rejectReason,
+    ...(job.rejectCategory && { category: job.rejectCategory }),
+    ...(job.errorSeverity && { severity: job.errorSeverity }),
+    rejectedBy: reviewer,
+    rejectedAt,
+  });
+
+  switch (job.qcStatus) {
+    case 'Rejected': {
+      const closed = open ? withLast(cycles, { ...open, result: 'Rejected', resultBy: reviewer, resultAt: qcAt }) : cycles;
+      return { ...job, reworkCycles: [...closed, startCycle(closed, job.rejectReason || '', qcAt)] };
+    }
+    case 'In Rework': {
+      const reworkAt = stepTime(job.reworkDateISO, at);
+      if (open) {
+        return open.reworkStartedAt ? job : { ...job, reworkCycles: withLast(cycles, { ...open, reworkStartedAt: reworkAt }) };
+      }
+      // Rework without a recorded rejection, e.g. of missing output or a job rejected before cycles were kept
+      const reason = previousStatus === 'Output Not Found' ? 'Output Not Found' : job.rejectReason || '';
+      return { ...job, reworkCycles: [...cycles, { ...startCycle(cycles, reason, qcAt), reworkStartedAt: reworkAt }] };
+    }
+    case 'Re-QC':
+      return open && !open.reworkFinishedAt
+        ? { ...job, reworkCycles: withLast(cycles, { ...open, reworkFinishedAt: at }) }
+        : job;
+    case 'Accepted':
+    case 'Output Not Found':
+      return open
+        ? { ...job, reworkCycles: withLast(cycles, { ...open, result: job.qcStatus, resultBy: reviewer, resultAt: qcAt }) }
+        : job;
+    default:
+      return job;
+  }
+}
+
+/**
+ * Starts the cycle of a job that is Rejected or In Rework but has none, e.g.
+ * demo data or jobs stored before cycles were kept. Other jobs are returned as they are.
+ */
+export function backfillReworkCycles(job: Job, at = new Date().toISOString()): Job {
+  if (job.reworkCycles?.length || (job.qcStatus !== 'Rejected' && job.qcStatus !== 'In Rework')) return job;
+  return trackReworkCycle('In QC', job, at);
+}
+
+/** Hours from the rejection until the reworked job was back for re-QC; null while still in rework. */
+export function reworkTurnaroundHours(cycle: ReworkCycle): number | null {
+  if (!cycle.reworkFinishedAt) return null;
+  const hours = (Date.parse(cycle.reworkFinishedAt) - Date.parse(cycle.rejectedAt)) / HOUR_MS;
+  return isNaN(hours) ? null : Math.max(0, hours);
+}
+
+export function formatDuration(hours: number | null): string {
+  if (hours === null) return '—';
+  return hours < 48 ? `${hours.toFixed(1)} h` : `${(hours / 24).toFixed(1)} d`;
+}
+
+export interface ReworkStats {
+  // Reviewer or batch ID; empty for the overall figures
+  key: string;
+  // Jobs that have been through QC at least once
+  qcedJobs: number;
+  firstPassJobs: number;
+  // Percentage of QC'd jobs accepted without any rework; null without QC'd jobs
+  firstPassYield: number | null;
+  acceptedJobs: number;
+  // Rework cycles the currently accepted jobs went through, on average
+  avgCyclesToAcceptance: number | null;
+  cycles: number;
+  openCycles: number;
+  avgTurnaroundHours: number | null;
+}
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+export function reworkStats(jobs: Job[], key = ''): ReworkStats {
+  const qced = jobs.filter(job => !PRE_QC_STATUSES.has(job.qcStatus) || (job.reworkCycles?.length ?? 0) > 0);
+  const accepted = qced.filter(job => job.qcStatus === 'Accepted');
+  const firstPass = accepted.filter(job => !job.reworkCycles?.length);
+  const cycles = qced.flatMap(job => job.reworkCycles ?? []);
+  const turnarounds = cycles.map(reworkTurnaroundHours).filter((hours): hours is number => hours !== null);
+
+  return {
+    key,
+    qcedJobs: qced.length,
+    firstPassJobs: firstPass.length,
+    firstPassYield: qced.length > 0 ? (firstPass.length / qced.length) * 100 : null,
+    acceptedJobs: accepted.length,
+    avgCyclesToAcceptance: average(accepted.map(job => job.reworkCycles?.length ?? 0)),
+    cycles: cycles.length,
+    openCycles: cycles.filter(cycle => !cycle.result).length,
+    avgTurnaroundHours: average(turnarounds),
+  };
+}
+
+/** Stats per group, largest groups first; groups without QC'd jobs are left out. */
+export function reworkStatsBy(jobs: Job[], keyOf: (job: Job) => string): ReworkStats[] {
+  const groups = new Map<string, Job[]>();
+  jobs.forEach(job => {
+    const key = keyOf(job);
+    const group = groups.get(key);
+    if (group) group.push(job);
+    else groups.set(key, [job]);
+  });
+  return [...groups.entries()]
+    .map(([key, group]) => reworkStats(group, key))
+    .filter(stats => stats.qcedJobs > 0)
+    .sort((a, b) => b.qcedJobs - a.qcedJobs || a.key.localeCompare(b.key));
+}
+
+// The reviewer who first passed judgement on the job owns its first-pass result
+export const firstReviewer = (job: Job) => job.reworkCycles?.[0]?.rejectedBy || job.qcName || 'Unassigned';
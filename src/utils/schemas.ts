@@ -0,0 +1,99 @@
+import { z } from "zod";
+import type { ReportSummary } from "@/utils/reportUtils";
+
+// Runtime counterparts of the Job (JobTable.tsx) and BatchInfo (CSVImportModal.tsx)
+// interfaces. Keep the shapes in sync when either side changes.
+
+export const QC_STATUSES = [
+  'Not Started',
+  'In QC',
+  'Accepted',
+  'Rejected',
+  'Output Not Found',
+  'In Rework',
+  'Re-QC',
+  'Hold',
+] as const;
+
+export type QCStatus = typeof QC_STATUSES[number];
+
+export const DATA_STATUSES = [
+  'Done',
+  'In Progress',
+  'Clarification Needed',
+  'Hold',
+] as const;
+
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Must be a YYYY-MM-DD date')
+  .refine(value => !isNaN(Date.parse(value)) && new Date(value).toISOString().startsWith(value), 'Not a real calendar date');
+
+const jobShape = z.object({
+  jid: z.string().trim().min(1, 'Job ID is required'),
+  refId: z.string(),
+  clientFileName: z.string(),
+  dataStatus: z.string(),
+  makingDate: z.string(),
+  makingDateISO: isoDate.optional(),
+  qcName: z.string(),
+  qcDate: z.string(),
+  qcDateISO: isoDate.optional(),
+  qcStatus: z.enum(QC_STATUSES, {
+    errorMap: () => ({ message: `QC Status must be one of: ${QC_STATUSES.join(', ')}` }),
+  }),
+  rejectReason: z.string().optional(),
+  rejectCategory: z.string().optional(),
+  errorSeverity: z.string().optional(),
+  reworkDate: z.string().optional(),
+  reworkDateISO: isoDate.optional(),
+  comment: z.string().optional(),
+  reworkCycles: z.array(z.object({
+    cycle: z.number().int().positive(),
+    rejectReason: z.string(),
+    category: z.string().optional(),
+    severity: z.string().optional(),
+    rejectedBy: z.string(),
+    rejectedAt: z.string(),
+    reworkStartedAt: z.string().optional(),
+    reworkFinishedAt: z.string().optional(),
+    result: z.enum(['Accepted', 'Rejected', 'Output Not Found']).optional(),
+    resultBy: z.string().optional(),
+    resultAt: z.string().optional(),
+  })).optional(),
+  batchId: z.string().optional(),
+  assignedTo: z.string().optional(),
+  assignedDate: z.string().optional(),
+  assignedBy: z.string().optional(),
+  version: z.number().int().nonnegative().optional(),
+  updatedAt: z.string().optional(),
+});
+
+type JobShape = z.infer<typeof jobShape>;
+
+function requireRejectReason(job: JobShape, ctx: z.RefinementCtx) {
+  if (job.qcStatus === 'Rejected' && !job.rejectReason?.trim()) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['rejectReason'],
+      message: 'Rejected jobs require a reject reason',
+    });
+  }
+}
+
+export const jobSchema = jobShape.superRefine(requireRejectReason);
+
+// QC'ed imports must state the making status instead of assuming "Done"
+export const qcedJobSchema = jobShape
+  .extend({ dataStatus: z.string().trim().min(1, 'Data Status is required') })
+  .superRefine(requireRejectReason);
+
+export const batchInfoSchema = z.object({
+  id: z.string().trim().min(1, 'Batch ID is required'),
+  name: z.string().trim().min(1, 'Batch name is required'),
+  type: z.enum(['Fresh', 'QCed']),
+  uploadDate: z.string().datetime({ message: 'Upload date must be an ISO timestamp' }),
+  uploadedBy: z.string(),
+  jobCount: z.number().int().nonnegative(),
+  reportSummary: z.custom<ReportSummary>().optional(),
+});
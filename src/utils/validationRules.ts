@@ -0,0 +1,288 @@
+import type { Job } from "@/components/JobTable";
+import type { BatchInfo } from "@/components/CSVImportModal";
+import { JOB_FIELDS, getMissingRequiredFields } from "@/utils/columnMapping";
+import type { ColumnMapping, MappableField } from "@/utils/columnMapping";
+import { DATE_COLUMNS } from "@/utils/dateUtils";
+import type { DateColumn, DateFormatDetection } from "@/utils/dateUtils";
+import { isCustomValueValid } from "@/utils/customFields";
+import type { CustomFieldDefinition } from "@/utils/customFields";
+import { jobSchema, qcedJobSchema, QC_STATUSES, DATA_STATUSES } from "@/utils/schemas";
+
+type BatchType = BatchInfo['type'];
+
+export type ValidationSeverity = 'error' | 'warning' | 'info';
+
+export type RuleSetting = ValidationSeverity | 'off';
+
+export type ValidationRuleId =
+  | 'required-columns'
+  | 'field-values'
+  | 'duplicate-jid'
+  | 'qc-status'
+  | 'data-status'
+  | 'unparsed-date'
+  | 'date-order'
+  | 'existing-jobs'
+  | 'custom-fields';
+
+export type RuleSettings = Partial<Record<ValidationRuleId, RuleSetting>>;
+
+// Overrides are kept per batch type, as the rule defaults are
+export type BatchRuleSettings = Record<BatchType, RuleSettings>;
+
+export interface ImportIssue {
+  // 1-based record number in the source file, header included
+  row: number;
+  column: string;
+  value: string;
+  message: string;
+  severity: ValidationSeverity;
+  rule: ValidationRuleId;
+}
+
+export interface ValidationRow {
+  row: number;
+  job: Job;
+}
+
+export interface ValidationContext {
+  batchType: BatchType;
+  headers: string[];
+  mapping: ColumnMapping;
+  // Record number file-level issues are reported against
+  headerRow: number;
+  rows: ValidationRow[];
+  dateFormats?: Partial<Record<DateColumn, DateFormatDetection>>;
+  // Workspace jobs for referential checks; those rules are skipped without them
+  existingJobs?: Job[];
+  // Types of the file's unmapped columns
+  customFields?: CustomFieldDefinition[];
+}
+
+interface RuleFinding {
+  row: number;
+  field: keyof Job;
+  value: string;
+  message: string;
+  // Reported column when the field alone does not name it
+  column?: string;
+}
+
+export interface ValidationRule {
+  id: ValidationRuleId;
+  label: string;
+  description: string;
+  // File rules only need the header; an error there rejects the whole file
+  scope: 'file' | 'row';
+  defaults: Record<BatchType, RuleSetting>;
+  check: (context: ValidationContext) => RuleFinding[];
+}
+
+const ISO_DATE_KEYS = Object.fromEntries(DATE_COLUMNS.map(c => [c.key, c.isoKey])) as Record<DateColumn, keyof Job>;
+
+export const VALIDATION_RULES: ValidationRule[] = [
+  {
+    id: 'required-columns',
+    label: 'Required columns',
+    description: 'Every field the batch type needs is mapped to a column',
+    scope: 'file',
+    defaults: { Fresh: 'error', QCed: 'error' },
+    check: ({ mapping, batchType, headerRow }) =>
+      getMissingRequiredFields(mapping, batchType).map(field => ({
+        row: headerRow,
+        field: field.key,
+        value: '',
+        message: 'Required column is not mapped',
+      })),
+  },
+  {
+    id: 'field-values',
+    label: 'Field values',
+    description: 'Rows match the job schema: Job ID present, reject reasons on rejected jobs, valid ISO dates',
+    scope: 'row',
+    defaults: { Fresh: 'error', QCed: 'error' },
+    check: ({ rows, batchType }) => {
+      const schema = batchType === 'QCed' ? qcedJobSchema : jobSchema;
+      return rows.flatMap(({ row, job }) => {
+        const result = schema.safeParse(job);
+        if (result.success) return [];
+        return result.error.issues
+          // The status vocabulary has its own rule so it can be configured separately
+          .filter(issue => issue.path[0] !== 'qcStatus')
+          .map(issue => {
+            const field = String(issue.path[0] ?? 'jid') as keyof Job;
+            return { row, field, value: String(job[field] ?? ''), message: issue.message };
+          });
+      });
+    },
+  },
+  {
+    id: 'duplicate-jid',
+    label: 'Duplicate Job IDs',
+    description: 'A Job ID appears only once per file; repeats after the first are flagged',
+    scope: 'row',
+    defaults: { Fresh: 'error', QCed: 'error' },
+    check: ({ rows }) => {
+      const firstRow = new Map<string, number>();
+      const findings: RuleFinding[] = [];
+      rows.forEach(({ row, job }) => {
+        if (!job.jid) return;
+        const first = firstRow.get(job.jid);
+        if (first === undefined) {
+          firstRow.set(job.jid, row);
+        } else {
+          findings.push({ row, field: 'jid', value: job.jid, message: `Duplicate of row ${first}` });
+        }
+      });
+      return findings;
+    },
+  },
+  {
+    id: 'qc-status',
+    label: 'QC status vocabulary',
+    description: `QC Status is one of: ${QC_STATUSES.join(', ')}`,
+    scope: 'row',
+    defaults: { Fresh: 'error', QCed: 'error' },
+    check: ({ rows }) => rows
+      .filter(({ job }) => !(QC_STATUSES as readonly string[]).includes(job.qcStatus))
+      .map(({ row, job }) => ({
+        row,
+        field: 'qcStatus',
+        value: job.qcStatus,
+        message: `QC Status must be one of: ${QC_STATUSES.join(', ')}`,
+      })),
+  },
+  {
+    id: 'data-status',
+    label: 'Data status vocabulary',
+    description: `Data Status is one of: ${DATA_STATUSES.join(', ')}`,
+    scope: 'row',
+    defaults: { Fresh: 'off', QCed: 'warning' },
+    check: ({ rows }) => rows
+      .filter(({ job }) => job.dataStatus && !(DATA_STATUSES as readonly string[]).includes(job.dataStatus))
+      .map(({ row, job }) => ({
+        row,
+        field: 'dataStatus',
+        value: job.dataStatus,
+        message: `Unknown data status; expected one of: ${DATA_STATUSES.join(', ')}`,
+      })),
+  },
+  {
+    id: 'unparsed-date',
+    label: 'Unreadable dates',
+    description: 'Dates that could not be read are imported as text only',
+    scope: 'row',
+    defaults: { Fresh: 'warning', QCed: 'warning' },
+    check: ({ rows, dateFormats = {} }) => rows.flatMap(({ row, job }) =>
+      DATE_COLUMNS
+        .filter(({ key, isoKey }) => job[key] && !job[isoKey])
+        .map(({ key }) => ({
+          row,
+          field: key,
+          value: job[key] || '',
+          message: dateFormats[key]?.format
+            ? `Not a valid date in ${dateFormats[key].format} format`
+            : 'Date format could not be determined for this column',
+        }))
+    ),
+  },
+  {
+    id: 'date-order',
+    label: 'Date order',
+    description: 'Making date is not after QC date, and QC date is not after rework date',
+    scope: 'row',
+    defaults: { Fresh: 'off', QCed: 'warning' },
+    check: ({ rows }) => rows.flatMap(({ row, job }) => {
+      const findings: RuleFinding[] = [];
+      const making = job[ISO_DATE_KEYS.makingDate];
+      const qc = job[ISO_DATE_KEYS.qcDate];
+      const rework = job[ISO_DATE_KEYS.reworkDate];
+      if (making && qc && qc < making) {
+        findings.push({ row, field: 'qcDate', value: job.qcDate, message: `QC date is before making date ${job.makingDate}` });
+      }
+      if (qc && rework && rework < qc) {
+        findings.push({ row, field: 'reworkDate', value: job.reworkDate || '', message: `Rework date is before QC date ${job.qcDate}` });
+      }
+      return findings;
+    }),
+  },
+  {
+    id: 'existing-jobs',
+    label: 'Existing jobs',
+    description: 'Fresh rows for known Job IDs are skipped; QC rows for unknown Job IDs create new jobs',
+    scope: 'row',
+    defaults: { Fresh: 'info', QCed: 'info' },
+    check: ({ rows, batchType, existingJobs }) => {
+      if (!existingJobs) return [];
+      const batchByJid = new Map(existingJobs.map(job => [job.jid, job.batchId || '']));
+      return rows
+        .filter(({ job }) => job.jid && batchByJid.has(job.jid) === (batchType === 'Fresh'))
+        .map(({ row, job }) => ({
+          row,
+          field: 'jid',
+          value: job.jid,
+          message: batchType === 'Fresh'
+            ? `Already imported${batchByJid.get(job.jid) ? ` in ${batchByJid.get(job.jid)}` : ''}; the existing job is kept`
+            : 'No existing job with this ID; it will be created',
+        }));
+    },
+  },
+  {
+    id: 'custom-fields',
+    label: 'Custom field types',
+    description: 'Values in unmapped columns match the field type in the workspace registry',
+    scope: 'row',
+    defaults: { Fresh: 'warning', QCed: 'warning' },
+    check: ({ rows, customFields = [] }) => rows.flatMap(({ row, job }) => customFields
+      .filter(field => job.customFields?.[field.key] !== undefined && !isCustomValueValid(job.customFields[field.key], field))
+      .map(field => ({
+        row,
+        field: 'customFields' as const,
+        column: field.label,
+        value: String(job.customFields[field.key]),
+        message: `Not a valid ${field.type} for custom field "${field.label}"; kept as text`,
+      }))),
+  },
+];
+
+const RULES_BY_ID = new Map(VALIDATION_RULES.map(rule => [rule.id, rule]));
+
+/** Rule defaults for a batch type with any overrides applied. */
+export function resolveRuleSettings(batchType: BatchType, overrides: RuleSettings = {}): Record<ValidationRuleId, RuleSetting> {
+  return Object.fromEntries(
+    VALIDATION_RULES.map(rule => [rule.id, overrides[rule.id] ?? rule.defaults[batchType]])
+  ) as Record<ValidationRuleId, RuleSetting>;
+}
+
+export function isFileLevelIssue(issue: ImportIssue): boolean {
+  return RULES_BY_ID.get(issue.rule)?.scope === 'file';
+}
+
+/**
+ * Runs every enabled rule and reports findings against the file's own column
+ * names. Pass scope 'file' to check a mapping before any rows are read.
+ */
+export function runValidationRules(
+  context: ValidationContext,
+  overrides?: RuleSettings,
+  scope?: ValidationRule['scope']
+): ImportIssue[] {
+  const settings = resolveRuleSettings(context.batchType, overrides);
+  const columnLabel = (field: keyof Job) => {
+    const baseField = String(field).replace(/ISO$/, '') as MappableField;
+    return context.mapping[baseField] || JOB_FIELDS.find(f => f.key === baseField)?.label || String(field);
+  };
+
+  const issues = VALIDATION_RULES
+    .filter(rule => settings[rule.id] !== 'off' && (!scope || rule.scope === scope))
+    .flatMap(rule => rule.check(context).map(finding => ({
+      row: finding.row,
+      column: finding.column || columnLabel(finding.field),
+      value: finding.value,
+      message: finding.message,
+      severity: settings[rule.id] as ValidationSeverity,
+      rule: rule.id,
+    })));
+
+  return issues.sort((a, b) => a.row - b.row);
+}
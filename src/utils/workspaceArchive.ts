@@ -0,0 +1,250 @@
+import { z } from "zod";
+import type { Job } from "@/components/JobTable";
+import type { BatchInfo } from "@/components/CSVImportModal";
+import { batchInfoSchema } from "@/utils/schemas";
+import { mergeCustomFields } from "@/utils/customFields";
+import type { CustomFieldDefinition } from "@/utils/customFields";
+import type { ImportTransaction } from "@/utils/importTransactions";
+import { AUDIT_ACTION_LABELS, appendAuditEvents } from "@/utils/auditLog";
+import type { AuditAction, AuditEvent } from "@/utils/auditLog";
+import { DEFAULT_WORKSPACE_SETTINGS, isNewerJob } from "@/utils/workspaceRepository";
+import { backfillReworkCycles } from "@/utils/reworkCycles";
+import type { ResolvedAnomaly, WorkspaceSnapshot } from "@/utils/workspaceRepository";
+
+// Identifies a backup file, so restoring some other JSON export fails early
+export const WORKSPACE_ARCHIVE_FORMAT = 'qc-dashboard-workspace';
+export const WORKSPACE_ARCHIVE_VERSION = 3;
+
+export interface WorkspaceArchive {
+  format: typeof WORKSPACE_ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  workspace: WorkspaceSnapshot;
+}
+
+// Append only, like the store's migrations: index i upgrades an archive from version i to i + 1
+const ARCHIVE_MIGRATIONS: ((archive: Record<string, unknown>) => void)[] = [
+  // 0 → 1: the first released format
+  () => {},
+  // 1 → 2: the audit log
+  archive => {
+    const workspace = archive.workspace as Record<string, unknown> | undefined;
+    if (workspace && !workspace.auditLog) workspace.auditLog = [];
+  },
+  // 2 → 3: rework cycles, started for jobs that were rejected or in rework when backed up
+  archive => {
+    const workspace = archive.workspace as Record<string, unknown> | undefined;
+    const at = typeof archive.exportedAt === 'string' ? archive.exportedAt : undefined;
+    if (Array.isArray(workspace?.jobs)) workspace.jobs = (workspace.jobs as Job[]).map(job => backfillReworkCycles(job, at));
+  },
+];
+
+// Jobs keep fields this version does not know, e.g. custom field values
+const archivedJobSchema = z.object({ jid: z.string().trim().min(1, 'Job ID is required') }).passthrough();
+
+const importLogEntrySchema = z.object({
+  id: z.string().min(1, 'Import log entry ID is required'),
+  batch: batchInfoSchema,
+  committedAt: z.string(),
+  createdJobIds: z.array(z.string()),
+  priorValues: z.record(z.record(z.unknown())),
+  appliedValues: z.record(z.record(z.unknown())),
+});
+
+const auditEventSchema = z.object({
+  id: z.string().min(1, 'Audit event ID is required'),
+  jid: z.string(),
+  batchId: z.string().optional(),
+  action: z.enum(Object.keys(AUDIT_ACTION_LABELS) as [AuditAction, ...AuditAction[]]),
+  actor: z.string(),
+  at: z.string(),
+  lifecycle: z.enum(['created', 'deleted']).optional(),
+  changes: z.array(z.object({ field: z.string(), before: z.string(), after: z.string() })),
+});
+
+const resolvedAnomalySchema = z.object({
+  key: z.string().min(1),
+  resolvedAt: z.string(),
+  resolvedBy: z.string(),
+});
+
+const archiveSchema = z.object({
+  format: z.literal(WORKSPACE_ARCHIVE_FORMAT),
+  version: z.number().int().positive(),
+  exportedAt: z.string(),
+  workspace: z.object({
+    jobs: z.array(archivedJobSchema),
+    batches: z.array(batchInfoSchema),
+    importLog: z.array(importLogEntrySchema),
+    auditLog: z.array(auditEventSchema),
+    settings: z.object({
+      customFields: z.array(z.custom<CustomFieldDefinition>(value => typeof (value as CustomFieldDefinition)?.key === 'string')).optional(),
+      resolvedAnomalies: z.array(resolvedAnomalySchema).optional(),
+    }).passthrough(),
+  }),
+});
+
+export function createWorkspaceArchive(snapshot: WorkspaceSnapshot, exportedAt = new Date().toISOString()): WorkspaceArchive {
+  return {
+    format: WORKSPACE_ARCHIVE_FORMAT,
+    version: WORKSPACE_ARCHIVE_VERSION,
+    exportedAt,
+    workspace: snapshot,
+  };
+}
+
+export const workspaceArchiveFileName = (exportedAt: string) =>
+  `workspace_backup_${exportedAt.slice(0, 10)}.json`;
+
+export interface WorkspaceArchiveSummary {
+  exportedAt: string;
+  jobs: number;
+  assignedJobs: number;
+  batches: number;
+  importLogEntries: number;
+  auditEvents: number;
+  resolvedAnomalies: number;
+  customFields: number;
+}
+
+export function summarizeWorkspace(snapshot: WorkspaceSnapshot, exportedAt: string): WorkspaceArchiveSummary {
+  return {
+    exportedAt,
+    jobs: snapshot.jobs.length,
+    assignedJobs: snapshot.jobs.filter(job => job.assignedTo).length,
+    batches: snapshot.batches.length,
+    importLogEntries: snapshot.importLog.length,
+    auditEvents: snapshot.auditLog.length,
+    resolvedAnomalies: snapshot.settings.resolvedAnomalies.length,
+    customFields: snapshot.settings.customFields.length,
+  };
+}
+
+export type ParsedWorkspaceArchive =
+  | { ok: true; archive: WorkspaceArchive; summary: WorkspaceArchiveSummary; warnings: string[] }
+  | { ok: false; errors: string[] };
+
+const duplicatesOf = (ids: string[]) =>
+  [...new Set(ids.filter((id, index) => ids.indexOf(id) !== index))];
+
+/**
+ * Reads a backup file's text. Structural problems reject the file; problems
+ * a restore can live with (duplicate IDs, jobs of unknown batches) are warnings.
+ */
+export function parseWorkspaceArchive(text: string): ParsedWorkspaceArchive {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, errors: ['The file is not valid JSON'] };
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data) || data.format !== WORKSPACE_ARCHIVE_FORMAT) {
+    return { ok: false, errors: ['Not a workspace backup file'] };
+  }
+
+  const version = typeof data.version === 'number' ? data.version : 0;
+  if (version > WORKSPACE_ARCHIVE_VERSION) {
+    return { ok: false, errors: [`The backup is from a newer version of the dashboard (archive version ${version})`] };
+  }
+  for (let from = version; from < WORKSPACE_ARCHIVE_VERSION; from++) {
+    ARCHIVE_MIGRATIONS[from]?.(data);
+    data.version = from + 1;
+  }
+
+  const result = archiveSchema.safeParse(data);
+  if (!result.success) {
+    return {
+      ok: false,
+      errors: result.error.issues.slice(0, 10).map(issue =>
+        issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+      ),
+    };
+  }
+
+  const { workspace, exportedAt } = result.data;
+  const snapshot: WorkspaceSnapshot = {
+    jobs: workspace.jobs as unknown as Job[],
+    batches: workspace.batches as BatchInfo[],
+    importLog: workspace.importLog as ImportTransaction[],
+    auditLog: workspace.auditLog as AuditEvent[],
+    settings: { ...DEFAULT_WORKSPACE_SETTINGS, ...workspace.settings } as WorkspaceSnapshot['settings'],
+  };
+
+  const warnings: string[] = [];
+  const duplicateJobs = duplicatesOf(snapshot.jobs.map(job => job.jid));
+  if (duplicateJobs.length) warnings.push(`${duplicateJobs.length} Job ID(s) appear more than once; the last copy is kept`);
+  const duplicateBatches = duplicatesOf(snapshot.batches.map(batch => batch.id));
+  if (duplicateBatches.length) warnings.push(`${duplicateBatches.length} batch ID(s) appear more than once; the last copy is kept`);
+  const batchIds = new Set(snapshot.batches.map(batch => batch.id));
+  const orphaned = snapshot.jobs.filter(job => job.batchId && !batchIds.has(job.batchId)).length;
+  if (orphaned) warnings.push(`${orphaned} job(s) belong to batches that are not in the backup`);
+
+  // Duplicates collapse to their last copy, as the warnings say
+  const deduplicated: WorkspaceSnapshot = {
+    ...snapshot,
+    jobs: [...new Map(snapshot.jobs.map(job => [job.jid, job])).values()],
+    batches: [...new Map(snapshot.batches.map(batch => [batch.id, batch])).values()],
+  };
+
+  const archive = createWorkspaceArchive(deduplicated, exportedAt);
+  return { ok: true, archive, summary: summarizeWorkspace(deduplicated, exportedAt), warnings };
+}
+
+export type RestoreMode = 'replace' | 'merge';
+
+export interface WorkspaceMergePreview {
+  newJobs: number;
+  updatedJobs: number;
+  // Jobs whose local revision is newer than the backup's
+  keptJobs: number;
+  newBatches: number;
+  replacedBatches: number;
+}
+
+/**
+ * Merges a backup into the current workspace. Jobs match by Job ID and keep
+ * whichever revision is newer; batches and import log entries match by ID and
+ * take the backup's copy. Audit logs and settings are combined.
+ */
+export function mergeWorkspaces(current: WorkspaceSnapshot, restored: WorkspaceSnapshot) {
+  const currentJobs = new Map(current.jobs.map(job => [job.jid, job]));
+  const currentBatchIds = new Set(current.batches.map(batch => batch.id));
+  const preview: WorkspaceMergePreview = { newJobs: 0, updatedJobs: 0, keptJobs: 0, newBatches: 0, replacedBatches: 0 };
+
+  const winners = restored.jobs.filter(job => {
+    const existing = currentJobs.get(job.jid);
+    if (!existing) preview.newJobs++;
+    else if (isNewerJob(job, existing)) preview.updatedJobs++;
+    else preview.keptJobs++;
+    return isNewerJob(job, existing);
+  });
+  restored.batches.forEach(batch => currentBatchIds.has(batch.id) ? preview.replacedBatches++ : preview.newBatches++);
+
+  const winnersById = new Map(winners.map(job => [job.jid, job]));
+  const restoredBatchIds = new Set(restored.batches.map(batch => batch.id));
+  const restoredLogIds = new Set(restored.importLog.map(entry => entry.id));
+  const resolvedKeys = new Set(current.settings.resolvedAnomalies.map(anomaly => anomaly.key));
+  const resolvedAnomalies: ResolvedAnomaly[] = [
+    ...current.settings.resolvedAnomalies,
+    ...restored.settings.resolvedAnomalies.filter(anomaly => !resolvedKeys.has(anomaly.key)),
+  ];
+
+  const snapshot: WorkspaceSnapshot = {
+    jobs: [
+      ...current.jobs.map(job => winnersById.get(job.jid) || job),
+      ...winners.filter(job => !currentJobs.has(job.jid)),
+    ],
+    batches: [...current.batches.filter(batch => !restoredBatchIds.has(batch.id)), ...restored.batches],
+    importLog: [...current.importLog.filter(entry => !restoredLogIds.has(entry.id)), ...restored.importLog]
+      .sort((a, b) => a.committedAt.localeCompare(b.committedAt)),
+    auditLog: appendAuditEvents(current.auditLog, restored.auditLog),
+    settings: {
+      ...restored.settings,
+      ...current.settings,
+      customFields: mergeCustomFields(current.settings.customFields, restored.settings.customFields),
+      resolvedAnomalies,
+    },
+  };
+
+  return { snapshot, preview };
+}
@@ -0,0 +1,206 @@
+import type { Job } from "@/components/JobTable";
+import type { BatchInfo } from "@/components/CSVImportModal";
+import { mergeCustomFields } from "@/utils/customFields";
+import type { CustomFieldDefinition } from "@/utils/customFields";
+import { createImportTransaction, revertImportTransaction } from "@/utils/importTransactions";
+import type { ImportTransaction } from "@/utils/importTransactions";
+import { appendAuditEvents, createAuditEvents } from "@/utils/auditLog";
+import type { AuditEvent } from "@/utils/auditLog";
+import { DEFAULT_QC_WORKFLOW } from "@/utils/qcWorkflow";
+import type { QCWorkflow } from "@/utils/qcWorkflow";
+import type { BatchRuleSettings } from "@/utils/validationRules";
+
+// Everything the dashboard keeps between sessions. Assignments are fields of
+// the job records, so they are stored with the jobs.
+export interface ResolvedAnomaly {
+  // Anomaly ID, scoped to the batch it was detected in ("all" for the whole workspace)
+  key: string;
+  resolvedAt: string;
+  resolvedBy: string;
+}
+
+export interface WorkspaceSettings {
+  customFields: CustomFieldDefinition[];
+  resolvedAnomalies: ResolvedAnomaly[];
+  qcWorkflow: QCWorkflow;
+  // Import validation rule overrides; rules without one use their defaults
+  ruleSettings: BatchRuleSettings;
+}
+
+export interface WorkspaceSnapshot {
+  jobs: Job[];
+  batches: BatchInfo[];
+  importLog: ImportTransaction[];
+  // Append only: every change to every job, oldest first
+  auditLog: AuditEvent[];
+  settings: WorkspaceSettings;
+}
+
+export const DEFAULT_WORKSPACE_SETTINGS: WorkspaceSettings = {
+  customFields: [],
+  resolvedAnomalies: [],
+  qcWorkflow: DEFAULT_QC_WORKFLOW,
+  ruleSettings: { Fresh: {}, QCed: {} },
+};
+
+export interface JobAssignment {
+  assignedTo: string;
+  assignedDate: string;
+  assignedBy: string;
+}
+
+/** One committed batch: the jobs it created or changed, as they are afterwards. */
+export interface BatchImport {
+  batch: BatchInfo;
+  jobs: Job[];
+  transaction: ImportTransaction;
+  // Field registry including the fields this batch introduced
+  customFields: CustomFieldDefinition[];
+  audit: AuditEvent[];
+}
+
+export interface BatchRevert {
+  batchId: string;
+  transactionId: string;
+  // Jobs the import had changed, with their prior values restored
+  jobs: Job[];
+  // Jobs the import had created
+  deletedJobIds: string[];
+  audit: AuditEvent[];
+}
+
+/**
+ * Where the workspace lives. The browser build keeps it in IndexedDB; setting
+ * VITE_WORKSPACE_API_URL points it at the bundled workspace server instead.
+ * Callers compute new records themselves; a repository only stores them.
+ */
+export interface WorkspaceRepository {
+  // Names the stored workspace; tabs with the same id share changes
+  readonly id: string;
+  loadWorkspace(): Promise<WorkspaceSnapshot>;
+  listJobs(): Promise<Job[]>;
+  listBatches(): Promise<BatchInfo[]>;
+  // Every write of jobs carries the audit events describing it. Returns the
+  // revisions kept, which are newer stored ones where another tab won.
+  updateJobs(jobs: Job[], audit: AuditEvent[]): Promise<Job[]>;
+  // Returns the updated jobs; unknown Job IDs are ignored
+  assignJobs(jobIds: string[], assignment: JobAssignment, audit: AuditEvent[]): Promise<Job[]>;
+  importBatch(request: BatchImport): Promise<void>;
+  revertBatch(request: BatchRevert): Promise<void>;
+  saveSettings(settings: WorkspaceSettings): Promise<void>;
+  // Swaps the whole workspace for another, e.g. a restored backup
+  replaceWorkspace(snapshot: WorkspaceSnapshot): Promise<void>;
+}
+
+/**
+ * Marks a job as a new revision. Every write of a job goes through here, so
+ * the version counter orders concurrent edits from different tabs.
+ */
+export function stampJob(job: Job, at = new Date().toISOString()): Job {
+  return { ...job, version: (job.version ?? 0) + 1, updatedAt: at };
+}
+
+/**
+ * Last writer wins: the higher version is newer, and between equal versions
+ * the later write. A job is never newer than an identical revision.
+ */
+export function isNewerJob(incoming: Job, current: Job | undefined): boolean {
+  if (!current) return true;
+  const incomingVersion = incoming.version ?? 0;
+  const currentVersion = current.version ?? 0;
+  if (incomingVersion !== currentVersion) return incomingVersion > currentVersion;
+  return (incoming.updatedAt ?? '') > (current.updatedAt ?? '');
+}
+
+export const isWorkspaceEmpty = (snapshot: Pick<WorkspaceSnapshot, 'jobs' | 'batches'>) =>
+  snapshot.jobs.length === 0 && snapshot.batches.length === 0;
+
+/**
+ * Packages the difference between two job lists as a batch to store. The
+ * audit events name the batch's uploader as the actor.
+ */
+export function createBatchImport(batch: BatchInfo, before: Job[], after: Job[], customFields: CustomFieldDefinition[]): BatchImport {
+  const transaction = createImportTransaction(batch, before, after);
+  const touched = new Set([...transaction.createdJobIds, ...Object.keys(transaction.appliedValues)]);
+  const beforeById = new Map(before.map(job => [job.jid, job]));
+  const changed = after.filter(job => touched.has(job.jid));
+  // Stamped after the transaction is recorded, so reverting never restores a version
+  const at = new Date().toISOString();
+  return {
+    batch,
+    jobs: changed.map(job => stampJob(job, at)),
+    transaction,
+    customFields,
+    audit: createAuditEvents(changed.map(job => ({ before: beforeById.get(job.jid), after: job })), 'import', batch.uploadedBy, at),
+  };
+}
+
+/** Undoes a logged import against the current jobs; see revertImportTransaction. */
+export function createBatchRevert(jobs: Job[], transaction: ImportTransaction, actor: string) {
+  const { jobs: revertedJobs, editedSinceImport } = revertImportTransaction(jobs, transaction);
+  const restored = new Set(Object.keys(transaction.priorValues));
+  const deleted = new Set(transaction.createdJobIds);
+  const currentById = new Map(jobs.map(job => [job.jid, job]));
+  const restoredJobs = revertedJobs.filter(job => restored.has(job.jid));
+  const at = new Date().toISOString();
+  const request: BatchRevert = {
+    batchId: transaction.batch.id,
+    transactionId: transaction.id,
+    jobs: restoredJobs.map(job => stampJob(job, at)),
+    deletedJobIds: transaction.createdJobIds,
+    audit: createAuditEvents([
+      ...restoredJobs.map(job => ({ before: currentById.get(job.jid), after: job })),
+      ...jobs.filter(job => deleted.has(job.jid)).map(job => ({ before: job })),
+    ], 'revert', actor, at),
+  };
+  return { request, editedSinceImport };
+}
+
+// The same changes applied to an in-memory snapshot: with force for this tab's
+// optimistic updates, without it for changes broadcast by other tabs
+
+/**
+ * Replaces jobs by Job ID and appends the ones not in the list yet. A job
+ * only replaces a newer revision of itself when force is set.
+ */
+export function upsertJobs(jobs: Job[], changed: Job[], force = true): Job[] {
+  const currentById = new Map(jobs.map(job => [job.jid, job]));
+  const winners = changed.filter(job => force || isNewerJob(job, currentById.get(job.jid)));
+  const winnersById = new Map(winners.map(job => [job.jid, job]));
+  return [
+    ...jobs.map(job => winnersById.get(job.jid) || job),
+    ...winners.filter(job => !currentById.has(job.jid)),
+  ];
+}
+
+// The assignment date doubles as the revision time, so every copy stamps the same revision
+export function assignJob(job: Job, assignment: JobAssignment): Job {
+  return stampJob({ ...job, ...assignment }, assignment.assignedDate);
+}
+
+export function applyJobAssignment(jobs: Job[], jobIds: string[], assignment: JobAssignment): Job[] {
+  const ids = new Set(jobIds);
+  return jobs.map(job => ids.has(job.jid) ? assignJob(job, assignment) : job);
+}
+
+export function applyBatchImport(snapshot: WorkspaceSnapshot, request: BatchImport, force = true): WorkspaceSnapshot {
+  return {
+    jobs: upsertJobs(snapshot.jobs, request.jobs, force),
+    batches: [...snapshot.batches.filter(batch => batch.id !== request.batch.id), request.batch],
+    importLog: [...snapshot.importLog.filter(entry => entry.id !== request.transaction.id), request.transaction],
+    auditLog: appendAuditEvents(snapshot.auditLog, request.audit),
+    // Merged, since another tab may know fields this import's registry did not
+    settings: { ...snapshot.settings, customFields: mergeCustomFields(snapshot.settings.customFields, request.customFields) },
+  };
+}
+
+export function applyBatchRevert(snapshot: WorkspaceSnapshot, request: BatchRevert, force = true): WorkspaceSnapshot {
+  const deleted = new Set(request.deletedJobIds);
+  return {
+    ...snapshot,
+    jobs: upsertJobs(snapshot.jobs.filter(job => !deleted.has(job.jid)), request.jobs, force),
+    batches: snapshot.batches.filter(batch => batch.id !== request.batchId),
+    importLog: snapshot.importLog.filter(entry => entry.id !== request.transactionId),
+    auditLog: appendAuditEvents(snapshot.auditLog, request.audit),
+  };
+}
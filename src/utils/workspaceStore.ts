@@ -0,0 +1,270 @@
+import type { Job } from "@/components/JobTable";
+import type { BatchInfo } from "@/components/CSVImportModal";
+import type { ImportTransaction } from "@/utils/importTransactions";
+import type { AuditEvent } from "@/utils/auditLog";
+import { DEFAULT_WORKSPACE_SETTINGS, assignJob, isNewerJob } from "@/utils/workspaceRepository";
+import { mergeCustomFields } from "@/utils/customFields";
+import { backfillReworkCycles } from "@/utils/reworkCycles";
+import type { CustomFieldDefinition } from "@/utils/customFields";
+import type {
+  BatchImport,
+  BatchRevert,
+  JobAssignment,
+  WorkspaceRepository,
+  WorkspaceSettings,
+  WorkspaceSnapshot,
+} from "@/utils/workspaceRepository";
+
+const DB_NAME = 'qc-dashboard-workspace';
+
+const STORES = {
+  jobs: 'jobs',
+  batches: 'batches',
+  importLog: 'importLog',
+  settings: 'settings',
+  auditLog: 'auditLog',
+} as const;
+
+interface Migration {
+  version: number;
+  description: string;
+  // Runs inside the versionchange transaction; may reshape existing records
+  upgrade: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+// Append only. Each entry upgrades a database from the previous version, so a
+// browser that skipped releases replays every step it missed in order.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Jobs, batches, import log and settings',
+    upgrade: db => {
+      const jobs = db.createObjectStore(STORES.jobs, { keyPath: 'jid' });
+      jobs.createIndex('batchId', 'batchId');
+      db.createObjectStore(STORES.batches, { keyPath: 'id' });
+      db.createObjectStore(STORES.importLog, { keyPath: 'id' });
+      // Key/value pairs, one per WorkspaceSettings field
+      db.createObjectStore(STORES.settings);
+    },
+  },
+  {
+    version: 2,
+    description: 'Audit log of job changes',
+    upgrade: db => {
+      const auditLog = db.createObjectStore(STORES.auditLog, { keyPath: 'id' });
+      auditLog.createIndex('jid', 'jid');
+    },
+  },
+  {
+    version: 3,
+    description: 'Rework cycles for jobs rejected or in rework before cycles were kept',
+    upgrade: (_db, transaction) => {
+      const request = transaction.objectStore(STORES.jobs).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        const job = cursor.value as Job;
+        const backfilled = backfillReworkCycles(job);
+        if (backfilled !== job) cursor.update(backfilled);
+        cursor.continue();
+      };
+    },
+  },
+];
+
+export const WORKSPACE_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+  });
+}
+
+/** Opens the workspace database, running any migrations the browser has not seen yet. */
+function openWorkspaceDB(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this browser'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, WORKSPACE_SCHEMA_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const transaction = request.transaction!;
+      MIGRATIONS
+        .filter(migration => migration.version > event.oldVersion)
+        .forEach(migration => migration.upgrade(request.result, transaction));
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema; close so its upgrade is not blocked
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error || new Error('Could not open the workspace database'));
+    request.onblocked = () => reject(new Error('Close other tabs of the dashboard to finish upgrading its storage'));
+  });
+}
+
+/** Reads the whole workspace. Settings missing from the store fall back to their defaults. */
+async function loadWorkspace(db: IDBDatabase): Promise<WorkspaceSnapshot> {
+  const transaction = db.transaction(Object.values(STORES), 'readonly');
+  const settingsStore = transaction.objectStore(STORES.settings);
+
+  const [jobs, batches, importLog, auditLog, settingKeys, settingValues] = await Promise.all([
+    requestResult(transaction.objectStore(STORES.jobs).getAll() as IDBRequest<Job[]>),
+    requestResult(transaction.objectStore(STORES.batches).getAll() as IDBRequest<BatchInfo[]>),
+    requestResult(transaction.objectStore(STORES.importLog).getAll() as IDBRequest<ImportTransaction[]>),
+    requestResult(transaction.objectStore(STORES.auditLog).getAll() as IDBRequest<AuditEvent[]>),
+    requestResult(settingsStore.getAllKeys()),
+    requestResult(settingsStore.getAll()),
+  ]);
+
+  const stored = Object.fromEntries(settingKeys.map((key, index) => [key, settingValues[index]]));
+  return {
+    jobs,
+    // Stores return records in key order; batches read best in upload order
+    batches: [...batches].sort((a, b) => a.uploadDate.localeCompare(b.uploadDate)),
+    importLog: [...importLog].sort((a, b) => a.committedAt.localeCompare(b.committedAt)),
+    auditLog: [...auditLog].sort((a, b) => a.at.localeCompare(b.at)),
+    settings: { ...DEFAULT_WORKSPACE_SETTINGS, ...stored },
+  };
+}
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+/**
+ * Runs writes in one readwrite transaction; resolves once it commits. The
+ * callback must queue its requests synchronously or from request callbacks.
+ */
+async function write(db: IDBDatabase, stores: StoreName[], fill: (transaction: IDBTransaction) => void): Promise<void> {
+  const transaction = db.transaction(stores, 'readwrite');
+  const done = transactionDone(transaction);
+  fill(transaction);
+  return done;
+}
+
+/**
+ * Writes a job unless the store already holds a newer revision of it, which
+ * another tab wrote in the meantime. Reports the revision that was kept.
+ */
+function putJob(store: IDBObjectStore, job: Job, onKept?: (kept: Job) => void) {
+  const request = store.get(job.jid) as IDBRequest<Job | undefined>;
+  request.onsuccess = () => {
+    const kept = isNewerJob(job, request.result) ? job : request.result!;
+    if (kept === job) store.put(job);
+    onKept?.(kept);
+  };
+}
+
+const putAll = (store: IDBObjectStore, records: unknown[]) => records.forEach(record => store.put(record));
+
+/** Workspace repository backed by this browser's IndexedDB. */
+export function createIndexedDBRepository(): WorkspaceRepository {
+  let opening: Promise<IDBDatabase> | null = null;
+  const database = () => {
+    if (!opening) {
+      opening = openWorkspaceDB();
+      // Let a later call retry after a failed open
+      opening.catch(() => { opening = null; });
+    }
+    return opening;
+  };
+
+  const readAll = async <T>(store: StoreName) => {
+    const db = await database();
+    return requestResult(db.transaction(store, 'readonly').objectStore(store).getAll() as IDBRequest<T[]>);
+  };
+
+  return {
+    id: `indexeddb:${DB_NAME}`,
+
+    loadWorkspace: async () => loadWorkspace(await database()),
+
+    listJobs: () => readAll<Job>(STORES.jobs),
+
+    listBatches: async () => (await readAll<BatchInfo>(STORES.batches))
+      .sort((a, b) => a.uploadDate.localeCompare(b.uploadDate)),
+
+    updateJobs: async (jobs: Job[], audit: AuditEvent[]) => {
+      const kept: Job[] = [];
+      await write(await database(), [STORES.jobs, STORES.auditLog], transaction => {
+        const store = transaction.objectStore(STORES.jobs);
+        jobs.forEach(job => putJob(store, job, winner => kept.push(winner)));
+        putAll(transaction.objectStore(STORES.auditLog), audit);
+      });
+      return kept;
+    },
+
+    assignJobs: async (jobIds: string[], assignment: JobAssignment, audit: AuditEvent[]) => {
+      const updated: Job[] = [];
+      await write(await database(), [STORES.jobs, STORES.auditLog], transaction => {
+        putAll(transaction.objectStore(STORES.auditLog), audit);
+        const store = transaction.objectStore(STORES.jobs);
+        jobIds.forEach(jid => {
+          const request = store.get(jid) as IDBRequest<Job | undefined>;
+          request.onsuccess = () => {
+            if (!request.result) return;
+            const job = assignJob(request.result, assignment);
+            store.put(job);
+            updated.push(job);
+          };
+        });
+      });
+      return updated;
+    },
+
+    importBatch: async (request: BatchImport) => {
+      await write(await database(), Object.values(STORES), transaction => {
+        const jobs = transaction.objectStore(STORES.jobs);
+        request.jobs.forEach(job => putJob(jobs, job));
+        transaction.objectStore(STORES.batches).put(request.batch);
+        transaction.objectStore(STORES.importLog).put(request.transaction);
+        // Merged like applyBatchImport, since another tab may have registered fields since
+        const settings = transaction.objectStore(STORES.settings);
+        const stored = settings.get('customFields') as IDBRequest<CustomFieldDefinition[] | undefined>;
+        stored.onsuccess = () => settings.put(mergeCustomFields(stored.result ?? [], request.customFields), 'customFields');
+        putAll(transaction.objectStore(STORES.auditLog), request.audit);
+      });
+    },
+
+    revertBatch: async (request: BatchRevert) => {
+      await write(await database(), [STORES.jobs, STORES.batches, STORES.importLog, STORES.auditLog], transaction => {
+        const jobs = transaction.objectStore(STORES.jobs);
+        request.deletedJobIds.forEach(jid => jobs.delete(jid));
+        request.jobs.forEach(job => putJob(jobs, job));
+        transaction.objectStore(STORES.batches).delete(request.batchId);
+        transaction.objectStore(STORES.importLog).delete(request.transactionId);
+        putAll(transaction.objectStore(STORES.auditLog), request.audit);
+      });
+    },
+
+    replaceWorkspace: async (snapshot: WorkspaceSnapshot) => {
+      await write(await database(), Object.values(STORES), transaction => {
+        Object.values(STORES).forEach(store => transaction.objectStore(store).clear());
+        putAll(transaction.objectStore(STORES.jobs), snapshot.jobs);
+        putAll(transaction.objectStore(STORES.batches), snapshot.batches);
+        putAll(transaction.objectStore(STORES.importLog), snapshot.importLog);
+        putAll(transaction.objectStore(STORES.auditLog), snapshot.auditLog);
+        const settings = transaction.objectStore(STORES.settings);
+        Object.entries(snapshot.settings).forEach(([key, value]) => settings.put(value, key));
+      });
+    },
+
+    saveSettings: async (settings: WorkspaceSettings) => {
+      await write(await database(), [STORES.settings], transaction => {
+        const store = transaction.objectStore(STORES.settings);
+        Object.entries(settings).forEach(([key, value]) => store.put(value, key));
+      });
+    },
+  };
+}
@@ -0,0 +1,82 @@
+import type { Job } from "@/components/JobTable";
+import { applyBatchImport, applyBatchRevert, upsertJobs } from "@/utils/workspaceRepository";
+import type { BatchImport, BatchRevert, WorkspaceSettings, WorkspaceSnapshot } from "@/utils/workspaceRepository";
+import { appendAuditEvents } from "@/utils/auditLog";
+import type { AuditEvent } from "@/utils/auditLog";
+
+// A stored change, sent to the other tabs of the same workspace
+export type WorkspaceChange =
+  | { type: 'jobs'; jobs: Job[]; audit: AuditEvent[] }
+  | { type: 'batch-import'; request: BatchImport }
+  | { type: 'batch-revert'; request: BatchRevert }
+  | { type: 'settings'; settings: WorkspaceSettings }
+  | { type: 'workspace'; snapshot: WorkspaceSnapshot };
+
+// One channel per workspace and page. A BroadcastChannel never receives its own
+// messages, so posting and listening through the same object skips this tab.
+const channels = new Map<string, BroadcastChannel>();
+
+export function workspaceChannel(workspaceId: string): BroadcastChannel | null {
+  if (typeof BroadcastChannel === 'undefined') return null;
+  let channel = channels.get(workspaceId);
+  if (!channel) {
+    channel = new BroadcastChannel(`workspace:${workspaceId}`);
+    channels.set(workspaceId, channel);
+  }
+  return channel;
+}
+
+/**
+ * Applies another tab's change to this tab's workspace. Jobs follow the
+ * last-writer-wins rule, so a revision this tab already has newer is kept.
+ */
+export function applyWorkspaceChange(snapshot: WorkspaceSnapshot, change: WorkspaceChange): WorkspaceSnapshot {
+  switch (change.type) {
+    case 'jobs':
+      return {
+        ...snapshot,
+        jobs: upsertJobs(snapshot.jobs, change.jobs, false),
+        auditLog: appendAuditEvents(snapshot.auditLog, change.audit),
+      };
+    case 'batch-import':
+      return applyBatchImport(snapshot, change.request, false);
+    case 'batch-revert':
+      return applyBatchRevert(snapshot, change.request, false);
+    case 'settings':
+      return { ...snapshot, settings: change.settings };
+    case 'workspace':
+      return change.snapshot;
+  }
+}
+
+// Puts back the entries a change added, replaced or removed; see undoWorkspaceChange
+function undoKeyed<T>(current: T[], before: T[], after: T[], keyOf: (item: T) => string): T[] {
+  if (before === after) return current;
+  const beforeByKey = new Map(before.map(item => [keyOf(item), item]));
+  const afterByKey = new Map(after.map(item => [keyOf(item), item]));
+  const undone = current.flatMap(item => {
+    const key = keyOf(item);
+    // Untouched by the change, or replaced by a later one
+    if (afterByKey.get(key) !== item || beforeByKey.get(key) === item) return [item];
+    const prior = beforeByKey.get(key);
+    return prior ? [prior] : [];
+  });
+  const present = new Set(undone.map(keyOf));
+  return [...undone, ...before.filter(item => !afterByKey.has(keyOf(item)) && !present.has(keyOf(item)))];
+}
+
+/**
+ * Takes one optimistic change back out of the workspace after its write
+ * failed. Everything the change touched returns to how it was before, unless
+ * a later change has replaced it since; changes applied alongside it, such as
+ * the other files of a multi-file import, are kept.
+ */
+export function undoWorkspaceChange(current: WorkspaceSnapshot, before: WorkspaceSnapshot, after: WorkspaceSnapshot): WorkspaceSnapshot {
+  return {
+    jobs: undoKeyed(current.jobs, before.jobs, after.jobs, job => job.jid),
+    batches: undoKeyed(current.batches, before.batches, after.batches, batch => batch.id),
+    importLog: undoKeyed(current.importLog, before.importLog, after.importLog, entry => entry.id),
+    auditLog: undoKeyed(current.auditLog, before.auditLog, after.auditLog, event => event.id),
+    settings: current.settings === after.settings ? before.settings : current.settings,
+  };
+}
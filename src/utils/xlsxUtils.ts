@@ -0,0 +1,289 @@
+import { readZip, writeZip } from "@/utils/zipUtils";
+
+// Just enough SpreadsheetML to read client workbooks and write our exports,
+// using only browser APIs (DecompressionStream, DOMParser).
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const OFFICE_DOCUMENT_REL = `${REL_NS}/officeDocument`;
+
+// Excel serial 0 is 1899-12-30 in the 1900 date system
+const EXCEL_EPOCH_OFFSET = 25569;
+const DATE_1904_OFFSET = 1462;
+const MS_PER_DAY = 86400000;
+
+// Built-in number formats that display dates or times
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+export interface XLSXWorkbook {
+  sheetNames: string[];
+  // Cell text by row and column; gaps in the sheet become empty strings
+  readSheet: (name: string) => string[][];
+}
+
+// Dates without a UTC time of day are written as date cells, others as date-time cells
+export type XLSXCellValue = string | number | Date | null;
+
+export interface XLSXSheet {
+  name: string;
+  rows: XLSXCellValue[][];
+}
+
+const parseXML = (bytes: Uint8Array | undefined) =>
+  bytes ? new DOMParser().parseFromString(new TextDecoder('utf-8').decode(bytes), 'application/xml') : null;
+
+const elements = (parent: Document | Element | null, name: string) =>
+  parent ? Array.from(parent.getElementsByTagNameNS('*', name)) : [];
+
+function resolvePath(base: string, target: string): string {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts = base.split('/').slice(0, -1);
+  target.split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+}
+
+function relsPath(path: string): string {
+  const slash = path.lastIndexOf('/');
+  return `${path.slice(0, slash + 1)}_rels/${path.slice(slash + 1)}.rels`;
+}
+
+function columnIndex(ref: string): number {
+  const letters = ref.replace(/[^A-Z]/gi, '').toUpperCase();
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function isDateFormatCode(code: string): boolean {
+  // Ignore literal text, colors and locale blocks before looking for date tokens
+  const stripped = code.replace(/"[^"]*"/g, '').replace(/\\./g, '').replace(/\[[^\]]*\]/g, '');
+  return /[dmyhs]/i.test(stripped);
+}
+
+function serialToText(serial: number, date1904: boolean): string {
+  const days = serial - EXCEL_EPOCH_OFFSET + (date1904 ? DATE_1904_OFFSET : 0);
+  const date = new Date(Math.round(days * MS_PER_DAY));
+  return Number.isInteger(serial) ? date.toISOString().slice(0, 10) : date.toISOString();
+}
+
+/** Opens an .xlsx file. Dates come back as YYYY-MM-DD (or ISO timestamps when they carry a time). */
+export async function readXLSX(file: File): Promise<XLSXWorkbook> {
+  const entries = await readZip(await file.arrayBuffer());
+
+  const rootRels = parseXML(entries.get('_rels/.rels'));
+  const workbookPath = elements(rootRels, 'Relationship')
+    .find(rel => rel.getAttribute('Type') === OFFICE_DOCUMENT_REL)
+    ?.getAttribute('Target')?.replace(/^\//, '') || 'xl/workbook.xml';
+  const workbook = parseXML(entries.get(workbookPath));
+  if (!workbook) throw new Error('Workbook part is missing');
+
+  const targets = new Map(
+    elements(parseXML(entries.get(relsPath(workbookPath))), 'Relationship').map(rel => [
+      rel.getAttribute('Id') || '',
+      { type: rel.getAttribute('Type') || '', path: resolvePath(workbookPath, rel.getAttribute('Target') || '') },
+    ])
+  );
+  const partOfType = (type: string) => [...targets.values()].find(t => t.type === `${REL_NS}/${type}`)?.path;
+
+  const date1904 = ['1', 'true'].includes(elements(workbook, 'workbookPr')[0]?.getAttribute('date1904') || '');
+
+  const sharedStrings = elements(parseXML(entries.get(partOfType('sharedStrings') || '')), 'si').map(si =>
+    // Phonetic runs are reading aids, not part of the value
+    elements(si, 't').filter(t => (t.parentNode as Element)?.localName !== 'rPh').map(t => t.textContent || '').join('')
+  );
+
+  const styles = parseXML(entries.get(partOfType('styles') || ''));
+  const customDateFormats = new Set(
+    elements(styles, 'numFmt')
+      .filter(fmt => isDateFormatCode(fmt.getAttribute('formatCode') || ''))
+      .map(fmt => Number(fmt.getAttribute('numFmtId')))
+  );
+  const dateStyles = elements(elements(styles, 'cellXfs')[0] || null, 'xf').map(xf => {
+    const id = Number(xf.getAttribute('numFmtId') || 0);
+    return BUILTIN_DATE_FORMATS.has(id) || customDateFormats.has(id);
+  });
+
+  const sheets = elements(workbook, 'sheet').map(sheet => ({
+    name: sheet.getAttribute('name') || '',
+    path: targets.get(sheet.getAttributeNS(REL_NS, 'id') || '')?.path || '',
+  }));
+
+  const cellText = (cell: Element): string => {
+    const type = cell.getAttribute('t') || 'n';
+    const value = elements(cell, 'v')[0]?.textContent ?? '';
+    switch (type) {
+      case 's':
+        return sharedStrings[Number(value)] ?? '';
+      case 'inlineStr':
+        return elements(cell, 't').map(t => t.textContent || '').join('');
+      case 'b':
+        return value === '1' ? 'TRUE' : 'FALSE';
+      case 'n':
+        if (value !== '' && dateStyles[Number(cell.getAttribute('s') || 0)]) {
+          return serialToText(Number(value), date1904);
+        }
+        return value;
+      default:
+        return value;
+    }
+  };
+
+  return {
+    sheetNames: sheets.map(sheet => sheet.name),
+    readSheet: (name: string) => {
+      const sheet = sheets.find(s => s.name === name);
+      const document = parseXML(entries.get(sheet?.path || ''));
+      if (!document) throw new Error(`Sheet "${name}" was not found`);
+
+      const rows: string[][] = [];
+      elements(document, 'row').forEach((rowElement, position) => {
+        const rowIndex = Number(rowElement.getAttribute('r') || position + 1) - 1;
+        const cells: string[] = [];
+        elements(rowElement, 'c').forEach((cell, cellPosition) => {
+          const ref = cell.getAttribute('r');
+          const column = ref ? columnIndex(ref) : cellPosition;
+          while (cells.length < column) cells.push('');
+          cells[column] = cellText(cell);
+        });
+        while (rows.length < rowIndex) rows.push([]);
+        rows[rowIndex] = cells;
+      });
+      return rows;
+    },
+  };
+}
+
+// XML 1.0 cannot carry control characters other than tab and line breaks, even escaped
+const escapeXML = (value: string) => value
+  .replace(/[^\t\n\r\u0020-\uFFFF]/g, '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Style indexes into cellXfs below
+const STYLE_DATE = 1;
+const STYLE_DATE_TIME = 2;
+const STYLE_HEADER = 3;
+
+const STYLES_XML = `${XML_DECLARATION}<styleSheet xmlns="${MAIN_NS}">` +
+  '<numFmts count="2"><numFmt numFmtId="164" formatCode="yyyy-mm-dd"/><numFmt numFmtId="165" formatCode="yyyy-mm-dd hh:mm"/></numFmts>' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="4">' +
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+  '</cellXfs>' +
+  '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+  '</styleSheet>';
+
+function cellXML(value: XLSXCellValue, ref: string, header: boolean): string {
+  if (value === null || value === '') return '';
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? `<c r="${ref}"><v>${value}</v></c>` : '';
+  }
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return '';
+    const serial = value.getTime() / MS_PER_DAY + EXCEL_EPOCH_OFFSET;
+    const style = value.getTime() % MS_PER_DAY === 0 ? STYLE_DATE : STYLE_DATE_TIME;
+    return `<c r="${ref}" s="${style}"><v>${serial}</v></c>`;
+  }
+  const style = header ? ` s="${STYLE_HEADER}"` : '';
+  return `<c r="${ref}" t="inlineStr"${style}><is><t xml:space="preserve">${escapeXML(value)}</t></is></c>`;
+}
+
+function cellWidth(value: XLSXCellValue): number {
+  if (value instanceof Date) return value.getTime() % MS_PER_DAY === 0 ? 10 : 16;
+  return value === null ? 0 : String(value).length;
+}
+
+function sheetXML(rows: XLSXCellValue[][]): string {
+  // reduce rather than spreading into Math.max: sheets can hold more rows than the argument limit
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const widths = Array.from({ length: columnCount }, (_, column) =>
+    Math.min(50, rows.reduce((max, row) => Math.max(max, cellWidth(row[column] ?? null) + 2), 10))
+  );
+
+  const cols = columnCount > 0
+    ? `<cols>${widths.map((width, i) => `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>`
+    : '';
+  const data = rows.map((row, r) =>
+    `<row r="${r + 1}">${row.map((value, c) => cellXML(value, `${columnName(c)}${r + 1}`, r === 0)).join('')}</row>`
+  ).join('');
+
+  // First row is a header: bold and frozen
+  return `${XML_DECLARATION}<worksheet xmlns="${MAIN_NS}">` +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `${cols}<sheetData>${data}</sheetData></worksheet>`;
+}
+
+/** Excel limits names to 31 characters without []:*?/\ and requires them to be unique. */
+function sheetNames(names: string[]): string[] {
+  const used = new Set<string>();
+  return names.map(name => {
+    const base = (name.replace(/[[\]:*?/\\]/g, '_').trim() || 'Sheet').slice(0, 31);
+    let candidate = base;
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+      const suffix = ` (${n})`;
+      candidate = base.slice(0, 31 - suffix.length) + suffix;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+  });
+}
+
+/** Builds an .xlsx workbook. The first row of every sheet is treated as its header. */
+export function writeXLSX(sheets: XLSXSheet[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const names = sheetNames(sheets.map(sheet => sheet.name));
+
+  const contentTypes = `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    sheets.map((_, i) =>
+      `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+    ).join('') +
+    '</Types>';
+
+  const rootRels = `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_REL_NS}">` +
+    `<Relationship Id="rId1" Type="${OFFICE_DOCUMENT_REL}" Target="xl/workbook.xml"/>` +
+    '</Relationships>';
+
+  const workbook = `${XML_DECLARATION}<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets>` +
+    names.map((name, i) => `<sheet name="${escapeXML(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('') +
+    '</sheets></workbook>';
+
+  const workbookRels = `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_REL_NS}">` +
+    sheets.map((_, i) =>
+      `<Relationship Id="rId${i + 1}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+    ).join('') +
+    `<Relationship Id="rId${sheets.length + 1}" Type="${REL_NS}/styles" Target="styles.xml"/>` +
+    '</Relationships>';
+
+  return writeZip([
+    { name: '[Content_Types].xml', data: encoder.encode(contentTypes) },
+    { name: '_rels/.rels', data: encoder.encode(rootRels) },
+    { name: 'xl/workbook.xml', data: encoder.encode(workbook) },
+    { name: 'xl/_rels/workbook.xml.rels', data: encoder.encode(workbookRels) },
+    { name: 'xl/styles.xml', data: encoder.encode(STYLES_XML) },
+    ...sheets.map((sheet, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, data: encoder.encode(sheetXML(sheet.rows)) })),
+  ]);
+}
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Base URL of the workspace server API; unset keeps the workspace in IndexedDB
+  readonly VITE_WORKSPACE_API_URL?: string;
+}
@@ -0,0 +1,104 @@
+import type { Job } from "@/components/JobTable";
+import type { BatchInfo } from "@/components/CSVImportModal";
+import { createCSVTokenizer, detectDelimiter, detectTextEncoding } from "@/utils/csvUtils";
+import type { CSVTokenizer } from "@/utils/csvUtils";
+import { parseRowsToBatch } from "@/utils/batchUtils";
+import type { BatchParseOptions, BatchParseResult } from "@/utils/batchUtils";
+import { parseReportSummaryRows } from "@/utils/reportUtils";
+import type { ReportSummary } from "@/utils/reportUtils";
+import { diffImport, diffFreshImport, DEFAULT_MERGE_OPTIONS } from "@/utils/mergeUtils";
+import type { ImportDiff, MergeOptions } from "@/utils/mergeUtils";
+
+export type ImportPhase = 'reading' | 'validating' | 'merging';
+
+export interface ImportWorkerRequest {
+  file: File;
+  batchInfo: BatchInfo;
+  options: BatchParseOptions;
+  // Validate only: parsed jobs are not sent back and nothing is merged
+  previewOnly?: boolean;
+  // Merge target; also enables the referential validation rules
+  existingJobs?: Job[];
+  mergeOptions?: MergeOptions;
+}
+
+export interface ImportWorkerResult {
+  parse: BatchParseResult;
+  // Non-blank data rows, valid or not
+  rowCount: number;
+  // Job IDs of the valid rows, kept in previews for cross-file duplicate checks
+  jobIds: string[];
+  reportSummary: ReportSummary | null;
+  diff?: ImportDiff;
+}
+
+export type ImportWorkerMessage =
+  | { type: 'progress'; phase: ImportPhase; loaded: number; total: number }
+  | { type: 'done'; result: ImportWorkerResult }
+  | { type: 'error'; message: string };
+
+const post = (message: ImportWorkerMessage) => self.postMessage(message);
+
+// Encoding and delimiter are taken from the first chunk, like exports write them
+async function readRows(file: File): Promise<string[][]> {
+  let decoder: TextDecoder | null = null;
+  let tokenizer: CSVTokenizer | null = null;
+  const reader = file.stream().getReader();
+  const rows: string[][] = [];
+  let loaded = 0;
+
+  const append = (completed: string[][]) => {
+    for (const row of completed) rows.push(row);
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    loaded += value.byteLength;
+    if (!decoder) decoder = new TextDecoder(detectTextEncoding(value));
+    const text = decoder.decode(value, { stream: true });
+    if (!tokenizer) tokenizer = createCSVTokenizer(detectDelimiter(text));
+    append(tokenizer.push(text));
+    post({ type: 'progress', phase: 'reading', loaded, total: file.size });
+  }
+
+  if (!decoder || !tokenizer) return rows;
+  append(tokenizer.push(decoder.decode()));
+  append(tokenizer.flush());
+  return rows;
+}
+
+async function runImport(request: ImportWorkerRequest): Promise<ImportWorkerResult> {
+  const { file, batchInfo, options, previewOnly, existingJobs, mergeOptions } = request;
+  const rows = await readRows(file);
+
+  const parse = parseRowsToBatch(rows, batchInfo, batchInfo.type, { ...options, existingJobs }, (processed, total) => {
+    post({ type: 'progress', phase: 'validating', loaded: processed, total });
+  });
+  const rowCount = parse.jobs.length + parse.invalidRowCount;
+  const jobIds = parse.jobs.map(job => job.jid);
+  const reportSummary = parseReportSummaryRows(rows);
+
+  if (previewOnly) {
+    return { parse: { ...parse, jobs: [] }, rowCount, jobIds, reportSummary };
+  }
+
+  let diff: ImportDiff | undefined;
+  if (existingJobs) {
+    post({ type: 'progress', phase: 'merging', loaded: 0, total: parse.jobs.length });
+    diff = batchInfo.type === 'QCed'
+      ? diffImport(existingJobs, parse.jobs, mergeOptions || DEFAULT_MERGE_OPTIONS)
+      : diffFreshImport(existingJobs, parse.jobs);
+    post({ type: 'progress', phase: 'merging', loaded: parse.jobs.length, total: parse.jobs.length });
+  }
+
+  return { parse, rowCount, jobIds, reportSummary, diff };
+}
+
+self.onmessage = async (event: MessageEvent<ImportWorkerRequest>) => {
+  try {
+    post({ type: 'done', result: await runImport(event.data) });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Failed to import file' });
+  }
+};